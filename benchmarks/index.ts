@@ -123,6 +123,28 @@ suite.add('Emission: emit() - 10 pattern listeners ("*.created", "*.updated"), m
 });
 
 
+// Pre-setup an emitter with many non-matching patterns to show that matching cost
+// does not grow with the number of registered patterns.
+const manyPatternsEmitTest = (() => {
+  const emitter = new TypeSafeEmitter<MyEvents>();
+  const handler: WildcardEventHandler = (event, data) => {};
+  for (let i = 0; i < ITERATIONS_FOR_SETUP; i++) {
+    emitter.on(`tenant${i}.*.created` as any, handler);
+  }
+  emitter.on('user.*', handler);
+  return () => {
+    emitter.emit('user.created', { id: '1', name: 'Test User' });
+  };
+})();
+suite.add(`Emission: emit() - ${ITERATIONS_FOR_SETUP} registered patterns, one matching`, manyPatternsEmitTest);
+
+suite.add('Emission: emit() - one "**" pattern listener, deep event name', () => {
+  const emitter = new TypeSafeEmitter<any>();
+  const handler: WildcardEventHandler = (event, data) => {};
+  emitter.on('user.**' as any, handler as any);
+  emitter.emit('user.profile.avatar.updated', {});
+});
+
 // --- Unsubscription Benchmarks ---
 suite.add('Unsubscription: off() - single listener', () => {
   const emitter = new TypeSafeEmitter<MyEvents>();
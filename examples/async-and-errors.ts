@@ -1,4 +1,4 @@
-import { TypeSafeEmitter, NoListenersError, InvalidEventNameError } from '../src'; // Adjust path
+import { TypeSafeEmitter, NoListenersError, InvalidEventNameError, HandlerError } from '../src'; // Adjust path
 
 console.log('--- Async and Error Handling Example ---');
 
@@ -102,6 +102,29 @@ emitterAsync.on('taskFailed', async (data) => {
       console.error(`Caught unexpected error for 'emit' InvalidEventNameError test:`, e);
     }
   }
-  
+
+  // --- 4. Handler error isolation ---
+  console.log('\n\n4. Demonstrating handler error isolation:');
+  const isolatedEmitter = new TypeSafeEmitter<MyEvents>({
+    onHandlerError: (error, { eventName }) => {
+      console.log(`[onHandlerError] ${String(eventName)}: ${(error.cause as Error).message}`);
+    },
+  });
+  isolatedEmitter.on('statusUpdate', () => { throw new Error('Display offline'); });
+  isolatedEmitter.on('statusUpdate', (data) => console.log(`[Isolated] Status still logged: ${data.message}`));
+  isolatedEmitter.emit('statusUpdate', { message: 'Both handlers ran.' });
+
+  const aggregatingEmitter = new TypeSafeEmitter<MyEvents>({ aggregateErrors: true });
+  aggregatingEmitter.on('statusUpdate', () => { throw new Error('First failure'); });
+  aggregatingEmitter.on('statusUpdate', () => { throw new Error('Second failure'); });
+  try {
+    aggregatingEmitter.emit('statusUpdate', { message: 'Collect every failure.' });
+  } catch (e: any) {
+    if (e instanceof AggregateError) {
+      const causes = (e.errors as HandlerError[]).map(error => (error.cause as Error).message);
+      console.log(`Caught AggregateError with ${causes.length} failures: ${causes.join(', ')}`);
+    }
+  }
+
   console.log('\n--- End of Async and Error Handling Example ---');
 })();
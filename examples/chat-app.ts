@@ -37,7 +37,8 @@ interface ChatEvents {
 }
 
 class ChatRoom {
-  private events = new TypeSafeEmitter<ChatEvents>();
+  // Keep the last 200 events so a broken session can be inspected after the fact
+  private events = new TypeSafeEmitter<ChatEvents>({ history: { size: 200, payload: 'clone' } });
   private activeUsers = new Set<string>();
   private typingUsers = new Set<string>();
   private messages: ChatEvents['messageReceived'][] = [];
@@ -63,16 +64,22 @@ class ChatRoom {
       this.logTypingStatus();
     });
 
-    // Store messages
-    this.events.on('messageReceived', (message) => {
-      this.messages.push(message);
-      this.logNewMessage(message);
-    });
+    // Store messages, consumed as a stream
+    this.processMessages();
 
     // Handle reactions
     this.events.on('messageReaction', this.handleReaction.bind(this));
   }
 
+  private async processMessages() {
+    // Keeps at most 100 unprocessed messages; the oldest are dropped if we fall behind.
+    const messages = this.events.iterate('messageReceived', { bufferSize: 100, overflow: 'drop-oldest' });
+    for await (const message of messages) {
+      this.messages.push(message);
+      this.logNewMessage(message);
+    }
+  }
+
   private logActiveUsers() {
     console.log(`Active users: ${Array.from(this.activeUsers).join(', ') || 'none'}`);
   }
@@ -185,8 +192,18 @@ class ChatRoom {
         roomId: this.roomId,
         leftAt: Date.now()
       });
+
+      this.printSessionLog();
     }, 5000);
   }
+
+  // Print which events arrived, in order, and how many handlers saw each
+  printSessionLog() {
+    console.log('\nSession log:');
+    for (const entry of this.events.history({ since: Date.now() - 60_000 })) {
+      console.log(`  #${entry.sequence} ${String(entry.eventName)} (${entry.handlerCount} handler(s))`);
+    }
+  }
 }
 
 // Example usage
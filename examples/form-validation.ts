@@ -25,10 +25,22 @@ interface FormEvents {
   formReset: {
     timestamp: number;
   };
+  validateField: {
+    fieldName: string;
+    value: string;
+  };
+}
+
+// Responses to request events, answered by a single responder
+interface FormResponses {
+  validateField: {
+    isValid: boolean;
+    errors: string[];
+  };
 }
 
 class FormValidator {
-  private events = new TypeSafeEmitter<FormEvents>();
+  private events = new TypeSafeEmitter<FormEvents, FormResponses>();
   private formData: Record<string, string> = {};
   private fieldErrors: Record<string, string[]> = {};
 
@@ -63,6 +75,12 @@ class FormValidator {
       console.log(`Validation ${isValid ? 'passed' : 'failed'} for ${fieldName}`);
     });
 
+    // Answer field validation requests
+    this.events.handle('validateField', ({ fieldName, value }) => {
+      const errors = fieldName === 'email' ? this.validateEmail(value) : this.validatePassword(value);
+      return { isValid: errors.length === 0, errors };
+    });
+
     // Handle form reset
     this.events.on('formReset', () => {
       this.formData = {};
@@ -209,6 +227,15 @@ class FormValidator {
       });
     }, 4000);
 
+    // Ask the validator directly and wait for its answer
+    setTimeout(async () => {
+      const result = await this.events.request('validateField', {
+        fieldName: 'password',
+        value: 'Sh0rt'
+      }, { timeout: 1000 });
+      console.log('Password check:', result);
+    }, 4500);
+
     // Reset the form
     setTimeout(() => {
       this.events.emit('formReset', {
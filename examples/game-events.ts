@@ -1,4 +1,7 @@
-import { TypeSafeEmitter } from '../src';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventLog, TypeSafeEmitter, replay } from '../src';
 
 // Define the game event types with their corresponding payloads
 interface GameEvents {
@@ -30,7 +33,8 @@ interface GameEvents {
 }
 
 class Game {
-  public events = new TypeSafeEmitter<GameEvents>();
+  // The game state is sticky, so late subscribers can ask for the current state
+  public events = new TypeSafeEmitter<GameEvents>({ sticky: { gameStateChange: true } });
   private scores: Map<string, number> = new Map();
 
   constructor() {
@@ -50,12 +54,21 @@ class Game {
       });
     });
 
+    // Movement fires every frame; render positions at most every 100ms
+    this.events.on('playerMove', ({ playerId, position }) => {
+      console.log(`${playerId} is at (${position.x}, ${position.y})`);
+    }, { throttle: { ms: 100 } });
+
     // Handle player collisions
     this.events.on('playerCollision', ({ player1Id, player2Id, location }) => {
       console.log(`Collision between ${player1Id} and ${player2Id} at (${location.x}, ${location.y})`);
     });
   }
 
+  getScores() {
+    return Object.fromEntries(this.scores);
+  }
+
   start() {
     this.events.emit('gameStateChange', {
       newState: 'starting',
@@ -113,4 +126,39 @@ game.events.once('gameStateChange', ({ newState, timestamp }) => {
 });
 
 // Start the game
-game.start(); 
\ No newline at end of file
+game.start();
+
+// A spectator joining after the start still learns the current state
+game.events.on('gameStateChange', ({ newState }) => {
+  console.log(`Spectator sees game state: ${newState}`);
+}, { replay: true });
+
+// Persist score updates to an append-only log, so the scores can be rebuilt after a restart
+async function restoreScoresAfterRestart() {
+  const dir = await mkdtemp(join(tmpdir(), 'game-'));
+  const log = await EventLog.open<GameEvents>(join(dir, 'events.jsonl'));
+  try {
+    const session = new Game();
+    log.attach(session.events, ['scoreUpdate']);
+    session.events.emit('collectItem', { playerId: 'player1', itemId: 'gem1', itemType: 'powerup', points: 250 });
+    session.events.emit('collectItem', { playerId: 'player2', itemId: 'coin2', itemType: 'coin', points: 100 });
+    await log.flush();
+
+    // A new process starts with empty scores and replays the log to rebuild them
+    const restarted = new Game();
+    await replay(log, restarted.events);
+    console.log('Scores rebuilt from the event log:', restarted.getScores());
+  } finally {
+    await log.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Run it once the game is over, so its output does not mix with the game's
+game.events
+  .waitFor('gameStateChange', { filter: ({ newState }) => newState === 'gameOver' })
+  .then(restoreScoresAfterRestart)
+  .catch(error => {
+    console.error('Restoring the scores failed:', error);
+    process.exitCode = 1;
+  });
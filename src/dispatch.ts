@@ -0,0 +1,195 @@
+import { AbortError, EmitTimeoutError, HandlerError } from './errors';
+import { AnyHandler, Listener, invokeListener } from './listeners';
+
+/**
+ * How `emitAsync` runs the listeners of an event.
+ * - 'parallel': start every handler, reject as soon as one fails (like `Promise.all`).
+ * - 'serial': run handlers one at a time in listener order, stop at the first failure.
+ * - 'allSettled': run every handler and never reject because of a handler failure.
+ */
+export type EmitAsyncMode = 'parallel' | 'serial' | 'allSettled';
+
+/**
+ * Options accepted by `emitAsync`.
+ */
+export interface EmitAsyncOptions {
+  /** Execution strategy. Defaults to 'parallel'. */
+  mode?: EmitAsyncMode;
+  /** Maximum number of handlers running at once in 'parallel' and 'allSettled' modes. Defaults to no limit. */
+  concurrency?: number;
+  /** Milliseconds each handler may run before it fails with an EmitTimeoutError. */
+  handlerTimeout?: number;
+  /** Milliseconds the whole emission may take before `emitAsync` rejects with an EmitTimeoutError. */
+  timeout?: number;
+  /**
+   * Aborting the signal makes `emitAsync` reject with an AbortError and start no more handlers.
+   * The signal is also passed to every handler as its last argument.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * What happened to one handler during `emitAsync`.
+ */
+export interface HandlerOutcome {
+  /** The handler as it was passed to `on` or `once`. */
+  handler: AnyHandler;
+  /**
+   * 'skipped' if the handler never started, e.g. after an earlier failure in 'serial' mode.
+   * 'pending' while the handler is still running, which `emitAsync` results never contain but
+   * history entries recorded during an emission may.
+   */
+  status: 'fulfilled' | 'rejected' | 'skipped' | 'pending';
+  /** The error the handler threw or rejected with, if any. */
+  error?: unknown;
+  /** Milliseconds between the handler being called and settling. 0 if skipped. */
+  duration: number;
+}
+
+/**
+ * The structured result of `emitAsync` when called with options.
+ */
+export interface EmitAsyncResult<K> {
+  eventName: K;
+  mode: EmitAsyncMode;
+  /** One entry per listener, in the order the listeners were scheduled. */
+  outcomes: HandlerOutcome[];
+  /** Milliseconds the whole emission took. */
+  duration: number;
+}
+
+const now = (): number => performance.now();
+
+/**
+ * Creates one pending outcome per listener, in listener order.
+ * @param listeners The listeners about to run.
+ */
+export function createOutcomes(listeners: Listener[]): HandlerOutcome[] {
+  return listeners.map(listener => ({
+    handler: listener.original,
+    status: 'pending',
+    duration: 0,
+  }));
+}
+
+/**
+ * Calls a listener and settles with its result, failing with an EmitTimeoutError
+ * if it does not settle within `timeout` milliseconds.
+ */
+function runListener(listener: Listener, eventName: PropertyKey, data: unknown, timeout?: number, signal?: AbortSignal): Promise<void> {
+  // The executor runs synchronously, so the handler starts immediately and a synchronous
+  // throw becomes a rejection.
+  const result = new Promise<void>(resolve => resolve(invokeListener(listener, eventName, data, signal)));
+  if (timeout === undefined) {
+    return result;
+  }
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new EmitTimeoutError(eventName, timeout, 'handler')), timeout);
+    result.then(
+      () => { clearTimeout(timer); resolve(); },
+      err => { clearTimeout(timer); reject(err); },
+    );
+  });
+}
+
+/**
+ * Creates the AbortError for an aborted emission.
+ */
+function abortErrorFor(eventName: PropertyKey, signal: AbortSignal): AbortError {
+  return new AbortError(`emitAsync for event "${String(eventName)}" was aborted`, signal.reason);
+}
+
+/**
+ * Runs listeners according to the given strategy and reports the outcome of each.
+ * Rejects with a HandlerError on the first failure unless the mode is 'allSettled',
+ * with an EmitTimeoutError if the overall timeout elapses first, and with an AbortError
+ * if the signal is aborted first.
+ * @param listeners The listeners to run, in execution order.
+ * @param eventName The event being emitted.
+ * @param data The event payload.
+ * @param options The execution strategy.
+ * @param outcomes The outcomes to fill in, one per listener. Handlers still running when the
+ * promise settles leave theirs pending until they settle too.
+ */
+export function dispatchAsync(
+  listeners: Listener[],
+  eventName: PropertyKey,
+  data: unknown,
+  options: EmitAsyncOptions = {},
+  outcomes: HandlerOutcome[] = createOutcomes(listeners)
+): Promise<HandlerOutcome[]> {
+  const mode = options.mode ?? 'parallel';
+  const limit = mode === 'serial' ? 1 : options.concurrency ?? Infinity;
+  const signal = options.signal;
+  if (!(limit >= 1) || signal?.aborted) {
+    outcomes.forEach(outcome => { outcome.status = 'skipped'; });
+    return Promise.reject(limit >= 1
+      ? abortErrorFor(eventName, signal!)
+      : new RangeError(`concurrency must be at least 1, got ${options.concurrency}`));
+  }
+
+  return new Promise<HandlerOutcome[]>((resolve, reject) => {
+    let next = 0;
+    let running = 0;
+    let settled = false;
+
+    const timer = options.timeout === undefined
+      ? undefined
+      : setTimeout(() => fail(new EmitTimeoutError(eventName, options.timeout!, 'emit')), options.timeout);
+    const onAbort = () => fail(abortErrorFor(eventName, signal!));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    function cleanup(): void {
+      settled = true;
+      for (let index = next; index < listeners.length; index++) {
+        outcomes[index].status = 'skipped';
+      }
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    function fail(error: unknown): void {
+      if (!settled) {
+        cleanup();
+        reject(error);
+      }
+    }
+
+    function launch(): void {
+      while (!settled && running < limit && next < listeners.length) {
+        const index = next++;
+        const listener = listeners[index];
+        // A handler earlier in this emit may have removed this listener.
+        const outcome = outcomes[index];
+        if (!listener.active) {
+          outcome.status = 'skipped';
+          continue;
+        }
+        const start = now();
+        running++;
+        runListener(listener, eventName, data, options.handlerTimeout, signal).then(
+          () => {
+            outcome.status = 'fulfilled';
+          },
+          err => {
+            outcome.status = 'rejected';
+            outcome.error = err;
+            if (mode !== 'allSettled') {
+              fail(new HandlerError(eventName, err));
+            }
+          },
+        ).then(() => {
+          outcome.duration = now() - start;
+          running--;
+          launch();
+        });
+      }
+      if (!settled && running === 0 && next >= listeners.length) {
+        cleanup();
+        resolve(outcomes);
+      }
+    }
+
+    launch();
+  });
+}
@@ -0,0 +1,200 @@
+import { EmitContext, NextFunction, markHandledExternally } from './middleware';
+import { EventMap, TypeSafeEmitter, TypeSafeEmitterOptions } from './index';
+
+/**
+ * Options accepted by `toEventTarget`.
+ */
+export interface ToEventTargetOptions {
+  /** Detaches the EventTarget from the TypeSafeEmitter when aborted, leaving a plain EventTarget. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by `fromEventTarget`. The others configure the TypeSafeEmitter it creates.
+ */
+export interface FromEventTargetOptions<T extends EventMap> extends TypeSafeEmitterOptions<T> {
+  /** Stops listening to each event after its first occurrence. Defaults to false. */
+  once?: boolean;
+  /** Listens in the capture phase, before listeners of the target's descendants. Defaults to false. */
+  capture?: boolean;
+  /** Promises not to call `preventDefault`, which lets browsers scroll without waiting. */
+  passive?: boolean;
+  /** Stops listening to the target when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A listener as `addEventListener` accepts it: a function, or an object with a `handleEvent` method.
+ */
+type Listener = ((event: Event) => void) | { handleEvent(event: Event): void };
+
+/**
+ * The options of `addEventListener`.
+ */
+interface ListenerOptions extends EventListenerOptions {
+  once?: boolean;
+  passive?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * The payload of a DOM event: the `detail` of a CustomEvent, otherwise the event itself.
+ * Checked by property rather than `instanceof`, so events from another realm, e.g. jsdom, work.
+ */
+function payloadOf(event: Event): unknown {
+  return 'detail' in event ? (event as CustomEvent).detail : event;
+}
+
+/**
+ * The key of a listener registration: the DOM tells listeners apart by type and capture flag.
+ */
+function registrationKey(type: string, options?: boolean | EventListenerOptions): string {
+  const capture = typeof options === 'boolean' ? options : Boolean(options?.capture);
+  return `${capture ? 'capture' : 'bubble'}:${type}`;
+}
+
+/**
+ * An EventTarget in front of a TypeSafeEmitter. Listeners are kept by the EventTarget itself, so
+ * `once`, `signal`, `capture` and `handleEvent` objects behave as in the DOM; a middleware on the
+ * TypeSafeEmitter dispatches its events to them.
+ */
+class EmitterEventTarget extends EventTarget {
+  /** The events being dispatched through `dispatchEvent`, so listeners receive them rather than copies. */
+  private dispatching: Event[] = [];
+  /** The wrappers registered for each listener, by registration key, which count the calls. */
+  private wrappers = new WeakMap<Listener, Map<string, (event: Event) => void>>();
+  /** The number of listener calls so far, to tell whether a dispatch reached any listener. */
+  private calls = 0;
+  /** True once the `signal` has aborted. */
+  private detached = false;
+
+  constructor(private readonly target: TypeSafeEmitter<any, any>, signal?: AbortSignal) {
+    super();
+    if (signal?.aborted) {
+      this.detached = true;
+      return;
+    }
+    const removeMiddleware = target.use((ctx: EmitContext<any>, next: NextFunction) => this.deliver(ctx, next));
+    signal?.addEventListener('abort', () => {
+      this.detached = true;
+      removeMiddleware();
+    }, { once: true });
+  }
+
+  /**
+   * Dispatches an event emitted on either side to the DOM listeners, then calls the typed ones.
+   * An event DOM listeners received does not count as unhandled, even if it has no typed listeners.
+   */
+  private deliver(ctx: EmitContext<any>, next: NextFunction): void | Promise<void> {
+    // DOM event types are strings.
+    if (typeof ctx.eventName === 'symbol') {
+      return next();
+    }
+    const type = String(ctx.eventName);
+    const current = this.dispatching[this.dispatching.length - 1];
+    const event = current?.type === type && Object.is(payloadOf(current), ctx.data)
+      ? current
+      : new CustomEvent(type, { detail: ctx.data });
+    const callsBefore = this.calls;
+    super.dispatchEvent(event);
+    if (this.calls > callsBefore) {
+      markHandledExternally(ctx);
+    }
+    return next();
+  }
+
+  /**
+   * Adds a listener as the DOM does, wrapped so that its calls are counted.
+   */
+  addEventListener(type: string, listener: Listener | null, options?: boolean | ListenerOptions): void {
+    // The DOM ignores a null listener.
+    if (!listener) {
+      return;
+    }
+    let byKey = this.wrappers.get(listener);
+    if (!byKey) {
+      byKey = new Map();
+      this.wrappers.set(listener, byKey);
+    }
+    const key = registrationKey(type, options);
+    let wrapper = byKey.get(key);
+    if (!wrapper) {
+      const adapter = this;
+      wrapper = function (this: EventTarget, event: Event) {
+        adapter.calls++;
+        return typeof listener === 'function' ? listener.call(this, event) : listener.handleEvent(event);
+      };
+      byKey.set(key, wrapper);
+    }
+    // Adding the same wrapper again is ignored by the DOM, as adding the same listener would be.
+    super.addEventListener(type, wrapper, options);
+  }
+
+  /**
+   * Removes a listener added with `addEventListener`.
+   */
+  removeEventListener(type: string, listener: Listener | null, options?: boolean | EventListenerOptions): void {
+    if (!listener) {
+      return;
+    }
+    super.removeEventListener(type, this.wrappers.get(listener)?.get(registrationKey(type, options)) ?? listener, options);
+  }
+
+  /**
+   * Emits the event on the TypeSafeEmitter, whose listeners receive the `detail` of a CustomEvent
+   * and any other event itself. Errors of typed listeners are thrown, wrapped as `emit` wraps them.
+   * @returns False if the event is cancelable and a listener called `preventDefault`, otherwise true.
+   */
+  dispatchEvent(event: Event): boolean {
+    if (this.detached) {
+      return super.dispatchEvent(event);
+    }
+    this.dispatching.push(event);
+    try {
+      this.target.emit(event.type, payloadOf(event));
+    } finally {
+      this.dispatching.pop();
+    }
+    return !event.defaultPrevented;
+  }
+}
+
+/**
+ * Exposes a TypeSafeEmitter as a DOM `EventTarget`, for code that expects one. Listeners added
+ * with `addEventListener` receive the events emitted on either side: events emitted on the
+ * TypeSafeEmitter arrive as CustomEvents whose `detail` is the payload. `dispatchEvent` emits on
+ * the TypeSafeEmitter, with the `detail` of a CustomEvent as payload. Symbol event names are not
+ * dispatched to the EventTarget, and number names are dispatched as strings. When `signal`
+ * aborts, the middleware dispatching the emitter's events is removed and the EventTarget no
+ * longer reaches the emitter.
+ * @param emitter The emitter to expose.
+ * @param options When to detach from the emitter.
+ * @returns An EventTarget backed by the emitter.
+ */
+export function toEventTarget<T extends EventMap>(emitter: TypeSafeEmitter<T, any>, options: ToEventTargetOptions = {}): EventTarget {
+  return new EmitterEventTarget(emitter as TypeSafeEmitter<any, any>, options.signal);
+}
+
+/**
+ * Listens to DOM events of a target, e.g. an element, `window` or any `EventTarget`, and emits
+ * them on a new TypeSafeEmitter. The payload is the `detail` of a CustomEvent and the event itself
+ * for other events, so `T` maps each event name to its `detail` type or its event class.
+ * @param target The EventTarget to listen to.
+ * @param eventNames The events to listen to.
+ * @param options The `addEventListener` options `once`, `capture`, `passive` and `signal`, and the TypeSafeEmitter's options.
+ * @returns A TypeSafeEmitter receiving the target's events.
+ */
+export function fromEventTarget<T extends EventMap>(
+  target: EventTarget,
+  eventNames: ReadonlyArray<keyof T & string>,
+  options: FromEventTargetOptions<T> = {}
+): TypeSafeEmitter<T> {
+  const { once, capture, passive, signal, ...emitterOptions } = options;
+  const emitter = new TypeSafeEmitter<T>(emitterOptions);
+  // Payloads come from the target, so they are only known at runtime.
+  const typed = emitter as TypeSafeEmitter<any, any>;
+  for (const eventName of eventNames) {
+    target.addEventListener(eventName, event => typed.emit(eventName, payloadOf(event)), { once, capture, passive, signal });
+  }
+  return emitter;
+}
@@ -33,3 +33,388 @@ export class InvalidEventNameError extends TypeSafeEmitterError {
     Object.setPrototypeOf(this, InvalidEventNameError.prototype);
   }
 }
+
+/**
+ * Error wrapping an exception thrown (or a rejection returned) by an event handler.
+ * Carries the event that was being dispatched and the original error as `cause`.
+ */
+export class HandlerError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+  readonly cause: unknown;
+
+  constructor(eventName: string | number | symbol, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Handler for event "${String(eventName)}" failed: ${reason}`);
+    this.eventName = eventName;
+    this.cause = cause;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, HandlerError.prototype);
+  }
+}
+
+/**
+ * Base class for errors raised when an operation does not complete in time.
+ */
+export class TimeoutError extends TypeSafeEmitterError {
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.timeout = timeout;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown when `emitAsync` exceeds its `timeout`, or a single handler exceeds `handlerTimeout`.
+ */
+export class EmitTimeoutError extends TimeoutError {
+  readonly eventName: string | number | symbol;
+  /** 'emit' if the whole emission timed out, 'handler' if a single handler did. */
+  readonly scope: 'emit' | 'handler';
+
+  constructor(eventName: string | number | symbol, timeout: number, scope: 'emit' | 'handler') {
+    const subject = scope === 'emit' ? 'emitAsync' : 'Handler';
+    super(`${subject} for event "${String(eventName)}" timed out after ${timeout}ms`, timeout);
+    this.eventName = eventName;
+    this.scope = scope;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, EmitTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled through an AbortSignal.
+ */
+export class AbortError extends TypeSafeEmitterError {
+  /** The signal's `reason`, if any. */
+  readonly reason: unknown;
+
+  constructor(message: string, reason?: unknown) {
+    super(message);
+    this.reason = reason;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, AbortError.prototype);
+  }
+}
+
+/**
+ * Error thrown when `waitFor`, `waitForAny` or `waitForAll` does not see its events in time.
+ */
+export class WaitForTimeoutError extends TimeoutError {
+  readonly eventNames: Array<string | number | symbol>;
+
+  constructor(eventNames: Array<string | number | symbol>, timeout: number) {
+    const names = eventNames.map(eventName => `"${String(eventName)}"`).join(', ');
+    super(`Timed out after ${timeout}ms waiting for ${names}`, timeout);
+    this.eventNames = eventNames;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, WaitForTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error thrown by an `iterate` iterator whose buffer is full when the `overflow` policy is 'error'.
+ */
+export class BufferOverflowError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+  readonly bufferSize: number;
+
+  constructor(eventName: string | number | symbol, bufferSize: number) {
+    super(`Iterator buffer for "${String(eventName)}" overflowed its size of ${bufferSize}`);
+    this.eventName = eventName;
+    this.bufferSize = bufferSize;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, BufferOverflowError.prototype);
+  }
+}
+
+/**
+ * Error thrown by `emit` and `emitAsync` when a payload fails the validator configured for its event.
+ */
+export class InvalidPayloadError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+  /** The problems reported by the validator, e.g. the `issues` of a schema library's error. */
+  readonly issues: readonly unknown[];
+  /** The error thrown by the validator, if it threw one. */
+  readonly cause: unknown;
+
+  constructor(eventName: string | number | symbol, issues: readonly unknown[], cause?: unknown) {
+    const details = issues.map(formatIssue).join('; ');
+    super(`Invalid payload for event "${String(eventName)}"${details ? `: ${details}` : ''}`);
+    this.eventName = eventName;
+    this.issues = issues;
+    this.cause = cause;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, InvalidPayloadError.prototype);
+  }
+}
+
+/**
+ * Renders a validation issue as text. Understands `{ path, message }` objects as produced by
+ * common schema libraries, and falls back to `String` for anything else.
+ */
+function formatIssue(issue: unknown): string {
+  if (issue && typeof issue === 'object' && 'message' in issue) {
+    const { path, message } = issue as { path?: unknown; message: unknown };
+    const where = Array.isArray(path) && path.length > 0 ? `${path.join('.')}: ` : '';
+    return `${where}${String(message)}`;
+  }
+  return String(issue);
+}
+
+/**
+ * Warning raised when listeners pile up in a way that suggests a leak: more listeners than
+ * `maxListeners` allows for an event, or the same handler added again under a different
+ * wrapper (e.g. `once` called repeatedly with one function). Passed to `onPossibleLeak`,
+ * or thrown by `on` and `once` when `strictMaxListeners` is set.
+ */
+export class PossibleListenerLeak extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+  /** 'limit' if `maxListeners` was exceeded, 'duplicate' if a handler was added twice. */
+  readonly reason: 'limit' | 'duplicate';
+  /** The number of listeners, counting the one being added. */
+  readonly count: number;
+  /** The `maxListeners` limit in effect for the event. Infinity if none. */
+  readonly limit: number;
+  /** Stack traces of the most recent subscriptions, newest first. */
+  readonly stacks: string[];
+
+  constructor(
+    eventName: string | number | symbol,
+    reason: 'limit' | 'duplicate',
+    count: number,
+    limit: number,
+    stacks: string[]
+  ) {
+    const detail = reason === 'limit'
+      ? `${count} listeners added for "${String(eventName)}", exceeding maxListeners of ${limit}`
+      : `the same handler was added to "${String(eventName)}" again (${count} listeners)`;
+    super(`Possible listener leak: ${detail}`);
+    this.eventName = eventName;
+    this.reason = reason;
+    this.count = count;
+    this.limit = limit;
+    this.stacks = stacks;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, PossibleListenerLeak.prototype);
+  }
+}
+
+/**
+ * Error thrown when subscribing or emitting through a scope after `dispose` was called on it.
+ */
+export class ScopeDisposedError extends TypeSafeEmitterError {
+  readonly prefix: string;
+
+  constructor(prefix: string) {
+    super(`Scope "${prefix}" has been disposed`);
+    this.prefix = prefix;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, ScopeDisposedError.prototype);
+  }
+}
+
+/**
+ * Error thrown by `request` when no responder is registered for the event.
+ */
+export class NoResponderError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+
+  constructor(eventName: string | number | symbol) {
+    super(`No responder for request "${String(eventName)}"`);
+    this.eventName = eventName;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, NoResponderError.prototype);
+  }
+}
+
+/**
+ * Error thrown by `handle` when the event already has a responder.
+ */
+export class DuplicateResponderError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+
+  constructor(eventName: string | number | symbol) {
+    super(`A responder for request "${String(eventName)}" is already registered`);
+    this.eventName = eventName;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, DuplicateResponderError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the responder of a `request` does not answer within its `timeout`.
+ */
+export class RequestTimeoutError extends TimeoutError {
+  readonly eventName: string | number | symbol;
+
+  constructor(eventName: string | number | symbol, timeout: number) {
+    super(`Request "${String(eventName)}" timed out after ${timeout}ms`, timeout);
+    this.eventName = eventName;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, RequestTimeoutError.prototype);
+  }
+}
+
+/**
+ * Error reported back by the other side of a transport when its handlers failed for an event
+ * that was sent with acknowledgement. Only the name and message of the remote error survive
+ * the trip.
+ */
+export class RemoteHandlerError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+  /** The name of the error the remote handler threw, e.g. 'TypeError'. */
+  readonly remoteName: string;
+
+  constructor(eventName: string | number | symbol, remoteName: string, remoteMessage: string) {
+    super(`Remote handler for event "${String(eventName)}" failed: ${remoteMessage}`);
+    this.eventName = eventName;
+    this.remoteName = remoteName;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, RemoteHandlerError.prototype);
+  }
+}
+
+/**
+ * Base class for errors of the socket transport. `cause` holds the underlying socket error, if any.
+ */
+export class TransportError extends TypeSafeEmitterError {
+  readonly cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.cause = cause;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, TransportError.prototype);
+  }
+}
+
+/**
+ * Error raised for an event that could not be delivered or acknowledged because the connection
+ * closed, or when waiting for a connection that was closed for good.
+ */
+export class ConnectionClosedError extends TransportError {
+  readonly eventName?: string | number | symbol;
+
+  constructor(eventName?: string | number | symbol, cause?: unknown) {
+    super(eventName === undefined
+      ? 'Connection closed'
+      : `Connection closed before event "${String(eventName)}" was acknowledged`, cause);
+    this.eventName = eventName;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, ConnectionClosedError.prototype);
+  }
+}
+
+/**
+ * Error raised for an event emitted while disconnected when the queue of events waiting for
+ * the connection is full. The event is dropped.
+ */
+export class QueueOverflowError extends TransportError {
+  readonly eventName: string | number | symbol;
+  readonly maxQueue: number;
+
+  constructor(eventName: string | number | symbol, maxQueue: number) {
+    super(`Event "${String(eventName)}" was dropped: the queue of ${maxQueue} events waiting for the connection is full`);
+    this.eventName = eventName;
+    this.maxQueue = maxQueue;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, QueueOverflowError.prototype);
+  }
+}
+
+/**
+ * Error raised when the other side of a socket sends a frame that is too large or not a valid
+ * message. The connection is closed.
+ */
+export class FrameError extends TransportError {
+  constructor(message: string) {
+    super(message);
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, FrameError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a codec cannot encode or decode the payload of an event. `field` is the
+ * path of the offending value inside the payload, e.g. `user.tags[0]`, or an empty string for
+ * the payload itself.
+ */
+export class CodecError extends TypeSafeEmitterError {
+  readonly eventName: string | number | symbol;
+  readonly operation: 'encode' | 'decode';
+  readonly field: string;
+  readonly cause: unknown;
+
+  constructor(eventName: string | number | symbol, operation: 'encode' | 'decode', field: string, reason: string, cause?: unknown) {
+    const location = field === '' ? '' : ` at "${field}"`;
+    super(`Cannot ${operation} event "${String(eventName)}"${location}: ${reason}`);
+    this.eventName = eventName;
+    this.operation = operation;
+    this.field = field;
+    this.cause = cause;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, CodecError.prototype);
+  }
+}
+
+/**
+ * Error thrown when reading an event log that contains a malformed line other than an
+ * incomplete last line, or a malformed snapshot file.
+ */
+export class CorruptLogError extends TypeSafeEmitterError {
+  readonly path: string;
+  /** The 1-based number of the malformed line. */
+  readonly line: number;
+
+  constructor(path: string, line: number, reason: string) {
+    super(`Event log "${path}" is corrupt at line ${line}: ${reason}`);
+    this.path = path;
+    this.line = line;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, CorruptLogError.prototype);
+  }
+}
+
+/**
+ * Error thrown when appending to an event log that has been closed.
+ */
+export class LogClosedError extends TypeSafeEmitterError {
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Event log "${path}" is closed`);
+    this.path = path;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, LogClosedError.prototype);
+  }
+}
+
+/**
+ * Error thrown when an 'error' event that is not an Error is emitted with no listeners,
+ * and the `throwOnUnhandledError` option is enabled. An Error payload is thrown as it is.
+ */
+export class UnhandledErrorEventError extends TypeSafeEmitterError {
+  /** The payload of the unhandled 'error' event. */
+  readonly context: unknown;
+
+  constructor(context: unknown) {
+    super(`Unhandled "error" event (${describeContext(context)})`);
+    this.context = context;
+    // Set the prototype explicitly to allow instanceof checks
+    Object.setPrototypeOf(this, UnhandledErrorEventError.prototype);
+  }
+}
+
+/**
+ * Renders the payload of an unhandled 'error' event as text, even if it has no `toString`.
+ */
+function describeContext(context: unknown): string {
+  try {
+    return String(context);
+  } catch {
+    return typeof context;
+  }
+}
@@ -0,0 +1,438 @@
+import { createReadStream, promises as fs } from 'fs';
+import { EventCodec, jsonCodec } from './codec';
+import { AbortError, CorruptLogError, LogClosedError } from './errors';
+import { createEventFilter } from './matcher';
+import { WildcardPattern } from './types';
+import type { EventMap, TypeSafeEmitter } from './index';
+
+/**
+ * Options accepted by `EventLog.open`.
+ */
+export interface EventLogOptions<T> {
+  /**
+   * Encodes payloads. Its output must be JSON text, as it is embedded in the log lines.
+   * Defaults to `jsonCodec()`, which keeps Dates, Maps, Sets and BigInts intact.
+   */
+  codec?: EventCodec<T, string>;
+  /** Where `snapshot` stores the state. Defaults to the log path followed by `.snapshot`. */
+  snapshotPath?: string;
+  /** Receives errors writing events appended by `attach`. Defaults to `console.error`. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * An event as stored in the log. It is a union over the event names, so checking
+ * `eventName` narrows `data`.
+ */
+export type LogEntry<T, K extends keyof T = keyof T> = K extends keyof T
+  ? {
+      /** Increases by one with every appended event, starting at 1. */
+      readonly seq: number;
+      /** When the event was appended, in milliseconds since the epoch. */
+      readonly timestamp: number;
+      readonly eventName: K;
+      readonly data: T[K];
+    }
+  : never;
+
+/**
+ * Selects log entries. Entries must match every criterion given.
+ */
+export interface LogRange<T> {
+  /** Only entries with at least this sequence number. */
+  from?: number;
+  /** Only entries with at most this sequence number. */
+  to?: number;
+  /** Only entries of these events or matching these patterns. */
+  events?: ReadonlyArray<keyof T | WildcardPattern>;
+}
+
+/**
+ * Options accepted by `replay`.
+ */
+export interface ReplayOptions<T> extends LogRange<T> {
+  /** Aborting the signal stops the replay, which rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * State derived from the events of a log, saved by `snapshot`.
+ */
+export interface Snapshot<S> {
+  /** The sequence number of the last event reflected in the state. */
+  readonly seq: number;
+  /** When the snapshot was taken, in milliseconds since the epoch. */
+  readonly timestamp: number;
+  readonly state: S;
+}
+
+interface Line {
+  text: string;
+  /** The 1-based line number. */
+  number: number;
+  /** False for a last line without a newline, which is still being written or was cut off. */
+  complete: boolean;
+  /** The length of the line in the file, in bytes, without its newline. */
+  bytes: number;
+}
+
+async function* readLines(path: string): AsyncGenerator<Line> {
+  let pending = Buffer.alloc(0);
+  let number = 0;
+  for await (const chunk of createReadStream(path)) {
+    const buffer = pending.length === 0 ? (chunk as Buffer) : Buffer.concat([pending, chunk as Buffer]);
+    let start = 0;
+    for (let end = buffer.indexOf(10); end !== -1; end = buffer.indexOf(10, start)) {
+      yield { text: buffer.toString('utf8', start, end), number: ++number, complete: true, bytes: end - start };
+      start = end + 1;
+    }
+    pending = buffer.subarray(start);
+  }
+  if (pending.length > 0) {
+    yield { text: pending.toString('utf8'), number: ++number, complete: false, bytes: pending.length };
+  }
+}
+
+interface StoredEntry {
+  seq: number;
+  timestamp: string;
+  event: string | number;
+  data: unknown;
+}
+
+function parseLine(path: string, line: Line): StoredEntry {
+  let stored: Partial<StoredEntry>;
+  try {
+    stored = JSON.parse(line.text);
+  } catch {
+    throw new CorruptLogError(path, line.number, 'invalid JSON');
+  }
+  if (
+    typeof stored !== 'object' || stored === null
+    || typeof stored.seq !== 'number'
+    || typeof stored.timestamp !== 'string'
+    || (typeof stored.event !== 'string' && typeof stored.event !== 'number')
+  ) {
+    throw new CorruptLogError(path, line.number, 'expected an object with seq, timestamp and event');
+  }
+  return stored as StoredEntry;
+}
+
+/** The codec of snapshot states, which are not events. */
+const stateCodec = jsonCodec<{ snapshot: unknown }>();
+
+/** Events being replayed into emitters, which logs attached to them must not append again. */
+const replaying = new WeakMap<EventLog<any>, Array<{ eventName: PropertyKey; data: unknown }>>();
+
+/**
+ * An append-only log of events in a file, one JSON line per event:
+ * `{"seq":1,"timestamp":"2024-03-09T12:00:00.000Z","event":"scoreUpdate","data":{...}}`.
+ * Rebuild state from it with `replay`, and keep replays short with `snapshot` and `compact`.
+ */
+export class EventLog<T extends EventMap> {
+  private readonly codec: EventCodec<T, string>;
+  private readonly snapshotPath: string;
+  private readonly onError: (error: unknown) => void;
+  /** Writes run one after another, in the order they were requested. */
+  private writing: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  private constructor(
+    /** The path of the log file. */
+    readonly path: string,
+    private handle: fs.FileHandle,
+    private lastSeq: number,
+    options: EventLogOptions<T>
+  ) {
+    this.codec = options.codec ?? jsonCodec<T>();
+    this.snapshotPath = options.snapshotPath ?? `${path}.snapshot`;
+    this.onError = options.onError ?? (error => console.error(error));
+  }
+
+  /**
+   * Opens a log file for appending, creating it if needed. An incomplete last line, left by
+   * a crash during a write, is removed. Sequence numbers continue after the last entry or
+   * the snapshot, whichever is later.
+   * @param path The log file.
+   * @param options The codec, snapshot path and error handler.
+   */
+  static async open<T extends EventMap>(path: string, options: EventLogOptions<T> = {}): Promise<EventLog<T>> {
+    const handle = await fs.open(path, 'a+');
+    try {
+      let lastSeq = 0;
+      let tail = 0;
+      for await (const line of readLines(path)) {
+        if (!line.complete) {
+          tail = line.bytes;
+        } else if (line.text !== '') {
+          lastSeq = parseLine(path, line).seq;
+        }
+      }
+      if (tail > 0) {
+        const { size } = await handle.stat();
+        await handle.truncate(size - tail);
+      }
+      const log = new EventLog<T>(path, handle, lastSeq, options);
+      // After a compaction the entries up to the snapshot are gone, so numbering continues after it.
+      const snapshot = await log.loadSnapshot();
+      log.lastSeq = Math.max(lastSeq, snapshot?.seq ?? 0);
+      return log;
+    } catch (err) {
+      await handle.close();
+      throw err;
+    }
+  }
+
+  /**
+   * The sequence number of the last appended event, or 0 if the log is empty.
+   */
+  get seq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Appends an event. Sequence numbers are assigned immediately, so concurrent appends are
+   * written in call order.
+   * @param eventName The event name. Symbols are rejected.
+   * @param data The payload.
+   * @returns The stored entry, once it is written.
+   * @throws {CodecError} If the payload cannot be encoded.
+   * @throws {LogClosedError} If the log has been closed.
+   */
+  append<K extends keyof T>(eventName: K, data: T[K]): Promise<LogEntry<T, K>> {
+    if (this.closed) {
+      return Promise.reject(new LogClosedError(this.path));
+    }
+    if (typeof eventName === 'symbol') {
+      return Promise.reject(new TypeError('Symbol event names cannot be logged'));
+    }
+    let encoded: string;
+    try {
+      encoded = this.codec.encode(eventName, data);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    const seq = ++this.lastSeq;
+    const timestamp = Date.now();
+    const line = `{"seq":${seq},"timestamp":"${new Date(timestamp).toISOString()}","event":${JSON.stringify(eventName)},"data":${encoded}}\n`;
+    const entry = { seq, timestamp, eventName, data } as LogEntry<T, K>;
+    return this.enqueue(async () => {
+      await this.handle.appendFile(line);
+      return entry;
+    });
+  }
+
+  /**
+   * Appends the selected events whenever the emitter emits them. Their listener returns the
+   * write, so `emitAsync` resolves once the events are written. Events emitted by `replay`
+   * from this log are not appended again.
+   * @param emitter The emitter to record.
+   * @param events The events and patterns to record. Defaults to every event.
+   * @returns A function that stops recording.
+   * @throws {InvalidEventNameError} If a pattern is malformed.
+   */
+  attach(emitter: TypeSafeEmitter<T, any>, events: ReadonlyArray<keyof T | WildcardPattern> = ['*']): () => void {
+    const selected = createEventFilter(events);
+    // Event names are checked by `events` only at runtime.
+    return (emitter as TypeSafeEmitter<any, any>).on('*', (eventName: PropertyKey, data: unknown) => {
+      if (typeof eventName === 'symbol' || !selected(eventName)) {
+        return;
+      }
+      if (replaying.get(this)?.some(event => event.eventName === eventName && Object.is(event.data, data))) {
+        return;
+      }
+      const written = this.append(eventName, data as T[keyof T]).then(
+        () => {},
+        err => {
+          this.onError(err);
+          throw err;
+        },
+      );
+      // `emit` ignores the returned promise; the error has been reported to onError.
+      written.catch(() => {});
+      return written;
+    });
+  }
+
+  /**
+   * Reads the log, oldest first, after pending appends are written.
+   * @param range The entries to read.
+   * @throws {CorruptLogError} If a line other than an incomplete last one is malformed.
+   * @throws {CodecError} If a payload cannot be decoded.
+   */
+  async *entries(range: LogRange<T> = {}): AsyncGenerator<LogEntry<T>> {
+    await this.flush();
+    const selected = range.events === undefined ? undefined : createEventFilter(range.events);
+    for await (const line of readLines(this.path)) {
+      if (!line.complete || line.text === '') {
+        continue;
+      }
+      const stored = parseLine(this.path, line);
+      if (range.from !== undefined && stored.seq < range.from) {
+        continue;
+      }
+      if (range.to !== undefined && stored.seq > range.to) {
+        return;
+      }
+      if (selected && !selected(stored.event)) {
+        continue;
+      }
+      const data = this.codec.decode(stored.event, JSON.stringify(stored.data));
+      yield { seq: stored.seq, timestamp: Date.parse(stored.timestamp), eventName: stored.event, data } as LogEntry<T>;
+    }
+  }
+
+  /**
+   * Saves state derived from the events appended so far, so replays can start after them.
+   * The snapshot replaces the previous one atomically.
+   * @param state The state, encoded like payloads, so it may contain Dates, Maps and Sets.
+   * @returns The saved snapshot.
+   * @throws {CodecError} If the state cannot be encoded.
+   */
+  snapshot<S>(state: S): Promise<Snapshot<S>> {
+    const snapshot: Snapshot<S> = { seq: this.lastSeq, timestamp: Date.now(), state };
+    const text = `{"seq":${snapshot.seq},"timestamp":"${new Date(snapshot.timestamp).toISOString()}","state":${stateCodec.encode('snapshot', state)}}\n`;
+    return this.enqueue(async () => {
+      await writeAtomically(this.snapshotPath, text);
+      return snapshot;
+    });
+  }
+
+  /**
+   * Loads the last snapshot.
+   * @returns The snapshot, or undefined if none was taken.
+   * @throws {CodecError} If the snapshot cannot be decoded.
+   * @throws {CorruptLogError} If the snapshot file is malformed.
+   */
+  async loadSnapshot<S>(): Promise<Snapshot<S> | undefined> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.snapshotPath, 'utf8');
+    } catch (err) {
+      if ((err as { code?: string }).code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+    let stored: { seq?: unknown; timestamp?: unknown; state?: unknown };
+    try {
+      stored = JSON.parse(text);
+    } catch {
+      throw new CorruptLogError(this.snapshotPath, 1, 'invalid JSON');
+    }
+    if (typeof stored !== 'object' || stored === null || typeof stored.seq !== 'number' || typeof stored.timestamp !== 'string') {
+      throw new CorruptLogError(this.snapshotPath, 1, 'expected an object with seq, timestamp and state');
+    }
+    return {
+      seq: stored.seq,
+      timestamp: Date.parse(stored.timestamp),
+      state: stateCodec.decode('snapshot', JSON.stringify(stored.state)) as S,
+    };
+  }
+
+  /**
+   * Removes the entries covered by the last snapshot from the log file. Sequence numbers
+   * are kept. The file is replaced atomically.
+   * @returns The number of removed entries.
+   */
+  compact(): Promise<number> {
+    return this.enqueue(async () => {
+      const snapshot = await this.loadSnapshot();
+      if (!snapshot) {
+        return 0;
+      }
+      let kept = '';
+      let removed = 0;
+      for await (const line of readLines(this.path)) {
+        if (!line.complete || line.text === '') {
+          continue;
+        }
+        if (parseLine(this.path, line).seq <= snapshot.seq) {
+          removed++;
+        } else {
+          kept += `${line.text}\n`;
+        }
+      }
+      await this.handle.close();
+      try {
+        await writeAtomically(this.path, kept);
+      } finally {
+        this.handle = await fs.open(this.path, 'a+');
+      }
+      return removed;
+    });
+  }
+
+  /**
+   * Resolves once every pending append is written.
+   */
+  flush(): Promise<void> {
+    return this.enqueue(async () => {});
+  }
+
+  /**
+   * Writes pending appends and closes the file. Later appends reject.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    await this.enqueue(() => this.handle.close());
+  }
+
+  private enqueue<R>(write: () => Promise<R>): Promise<R> {
+    const result = this.writing.then(write);
+    this.writing = result.then(() => {}, () => {});
+    return result;
+  }
+}
+
+async function writeAtomically(path: string, text: string): Promise<void> {
+  const temporary = `${path}.tmp`;
+  await fs.writeFile(temporary, text);
+  await fs.rename(temporary, path);
+}
+
+/**
+ * Emits the events of a log again, in order, with `emitAsync`, waiting for each before
+ * emitting the next, e.g. to rebuild state after a restart. Logs attached to the emitter do
+ * not append the replayed events again.
+ * @param log The log to read.
+ * @param emitter The emitter to emit the events on.
+ * @param options The entries to replay, e.g. `{ from: snapshot.seq + 1 }`, and a signal to stop.
+ * @returns The number of replayed events.
+ * @throws {AbortError} If the signal is aborted.
+ * @throws {HandlerError} If a handler fails, which stops the replay.
+ */
+export async function replay<T extends EventMap>(
+  log: EventLog<T>,
+  emitter: TypeSafeEmitter<T, any>,
+  options: ReplayOptions<T> = {}
+): Promise<number> {
+  const signal = options.signal;
+  const checkAborted = () => {
+    if (signal?.aborted) {
+      throw new AbortError('Replay was aborted', signal.reason);
+    }
+  };
+  checkAborted();
+  let events = replaying.get(log);
+  if (!events) {
+    events = [];
+    replaying.set(log, events);
+  }
+  let count = 0;
+  for await (const entry of log.entries(options)) {
+    checkAborted();
+    const event = { eventName: entry.eventName, data: entry.data };
+    events.push(event);
+    try {
+      await (emitter as TypeSafeEmitter<any, any>).emitAsync(entry.eventName, entry.data);
+    } finally {
+      events.splice(events.indexOf(event), 1);
+    }
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,226 @@
+import { HandlerOutcome } from './dispatch';
+import { SINGLE_WILDCARD, matchesPattern } from './matcher';
+import type { EventMap, TypeSafeEmitter } from './index';
+
+/**
+ * How the history stores payloads.
+ * - 'reference': the payload itself, so later mutations show up in the history.
+ * - 'clone': a `structuredClone` of the payload. Payloads that cannot be cloned are stored by reference.
+ * - A function returning the value to store, e.g. a copy with secrets redacted.
+ */
+export type HistoryPayload = 'reference' | 'clone' | ((eventName: PropertyKey, data: unknown) => unknown);
+
+/**
+ * Options of the history recorder, given as the `history` constructor option.
+ */
+export interface HistoryOptions {
+  /** Maximum number of events kept. Older events are dropped first. Defaults to 100. */
+  size?: number;
+  /** How payloads are stored. Defaults to 'reference'. */
+  payload?: HistoryPayload;
+}
+
+/**
+ * An emitted event as recorded in the history. It is a union over the event names, so
+ * checking `eventName` narrows `data`.
+ */
+export type HistoryEntry<T, K extends keyof T = keyof T> = K extends keyof T
+  ? {
+      /** Increases with every recorded event. */
+      readonly sequence: number;
+      readonly eventName: K;
+      /** The payload as the listeners received it, stored according to the `payload` option. */
+      readonly data: T[K];
+      /** When the event was delivered, in milliseconds since the epoch. */
+      readonly timestamp: number;
+      /** The number of handlers that ran, i.e. that were not skipped. */
+      readonly handlerCount: number;
+      /** One outcome per listener of the event, in execution order. */
+      readonly handlers: readonly HandlerOutcome[];
+    }
+  : never;
+
+/**
+ * Selects history entries. Entries must match every criterion given.
+ */
+export interface HistoryQuery<T> {
+  /** Only entries of this event. */
+  event?: keyof T;
+  /** Only entries whose event name matches this pattern. */
+  pattern?: string;
+  /** Only entries recorded at or after this time. */
+  since?: number | Date;
+  /** At most this many entries, the most recent ones. */
+  limit?: number;
+}
+
+interface RecordedEvent {
+  readonly sequence: number;
+  readonly eventName: PropertyKey;
+  readonly data: unknown;
+  readonly timestamp: number;
+  /** Filled in while the handlers run. */
+  readonly handlers: HandlerOutcome[];
+}
+
+/**
+ * Keeps the most recent emitted events in a ring buffer.
+ */
+export class HistoryRecorder {
+  private readonly buffer: Array<RecordedEvent | undefined>;
+  private readonly payload: HistoryPayload;
+  private start = 0;
+  private length = 0;
+  private nextSequence = 0;
+
+  /**
+   * @param options The buffer size and payload mode.
+   * @throws {RangeError} If `size` is not a positive integer.
+   */
+  constructor(options: HistoryOptions = {}) {
+    const size = options.size ?? 100;
+    if (!(Number.isInteger(size) && size >= 1)) {
+      throw new RangeError(`History size must be a positive integer, got ${size}`);
+    }
+    this.buffer = new Array(size);
+    this.payload = options.payload ?? 'reference';
+  }
+
+  /**
+   * Records an event about to be delivered, dropping the oldest entry if the buffer is full.
+   * @param eventName The event being emitted.
+   * @param data The payload its listeners receive.
+   * @param handlers The outcomes of its listeners, which the caller keeps updating.
+   */
+  record(eventName: PropertyKey, data: unknown, handlers: HandlerOutcome[]): void {
+    const entry: RecordedEvent = {
+      sequence: this.nextSequence++,
+      eventName,
+      data: this.capture(eventName, data),
+      timestamp: Date.now(),
+      handlers,
+    };
+    const size = this.buffer.length;
+    if (this.length < size) {
+      this.buffer[(this.start + this.length++) % size] = entry;
+    } else {
+      this.buffer[this.start] = entry;
+      this.start = (this.start + 1) % size;
+    }
+  }
+
+  /**
+   * Returns snapshots of the recorded events matching a query, oldest first.
+   * @param query The criteria entries must match.
+   * @throws {InvalidEventNameError} If the pattern is malformed.
+   */
+  query(query: HistoryQuery<any> = {}): HistoryEntry<any>[] {
+    const since = query.since instanceof Date ? query.since.getTime() : query.since;
+    const matching: HistoryEntry<any>[] = [];
+    for (let index = 0; index < this.length; index++) {
+      const entry = this.buffer[(this.start + index) % this.buffer.length]!;
+      if (query.event !== undefined && entry.eventName !== query.event) {
+        continue;
+      }
+      if (query.pattern !== undefined && !matchesName(query.pattern, entry.eventName)) {
+        continue;
+      }
+      if (since !== undefined && entry.timestamp < since) {
+        continue;
+      }
+      matching.push(snapshot(entry));
+    }
+    return query.limit === undefined ? matching : matching.slice(Math.max(matching.length - query.limit, 0));
+  }
+
+  /**
+   * Forgets every recorded event.
+   */
+  clear(): void {
+    this.buffer.fill(undefined);
+    this.start = 0;
+    this.length = 0;
+  }
+
+  /**
+   * Returns the value to store for a payload according to the payload mode.
+   */
+  private capture(eventName: PropertyKey, data: unknown): unknown {
+    if (this.payload === 'reference') {
+      return data;
+    }
+    if (this.payload === 'clone') {
+      try {
+        return structuredClone(data);
+      } catch {
+        return data;
+      }
+    }
+    return this.payload(eventName, data);
+  }
+}
+
+function matchesName(pattern: string, eventName: PropertyKey): boolean {
+  return pattern === SINGLE_WILDCARD || (typeof eventName === 'string' && matchesPattern(pattern, eventName));
+}
+
+function snapshot(entry: RecordedEvent): HistoryEntry<any> {
+  const handlers = entry.handlers.map(outcome => ({ ...outcome }));
+  return {
+    sequence: entry.sequence,
+    eventName: entry.eventName as string,
+    data: entry.data,
+    timestamp: entry.timestamp,
+    handlerCount: handlers.filter(outcome => outcome.status !== 'skipped').length,
+    handlers,
+  };
+}
+
+/**
+ * Converts an error to a plain object, since `JSON.stringify` turns errors into `{}`.
+ */
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+  const serialized: Record<string, unknown> = { name: error.name, message: error.message };
+  const cause = (error as { cause?: unknown }).cause;
+  if (cause !== undefined) {
+    serialized.cause = serializeError(cause);
+  }
+  return serialized;
+}
+
+/**
+ * Serializes history entries to JSON. Handlers are identified by their function name,
+ * errors become `{ name, message, cause }` objects and symbol event names their description.
+ * @param entries The entries to serialize, e.g. the result of `history()`.
+ * @returns A JSON array of entries.
+ */
+export function serializeHistory(entries: readonly HistoryEntry<any>[]): string {
+  return JSON.stringify(entries.map(entry => ({
+    sequence: entry.sequence,
+    eventName: typeof entry.eventName === 'symbol' ? String(entry.eventName) : entry.eventName,
+    data: entry.data,
+    timestamp: new Date(entry.timestamp).toISOString(),
+    handlerCount: entry.handlerCount,
+    handlers: entry.handlers.map(outcome => ({
+      handler: outcome.handler.name || '(anonymous)',
+      status: outcome.status,
+      error: serializeError(outcome.error),
+      duration: outcome.duration,
+    })),
+  })), null, 2);
+}
+
+/**
+ * Emits recorded events again, in order, e.g. into a fresh emitter to reproduce a bug.
+ * Events are emitted with `emit`, so a handler error stops the re-dispatch.
+ * @param entries The entries to emit, e.g. a slice returned by `history()`.
+ * @param target The emitter to emit them on.
+ */
+export function redispatch<T extends EventMap>(entries: readonly HistoryEntry<T>[], target: TypeSafeEmitter<T, any>): void {
+  for (const entry of entries) {
+    target.emit(entry.eventName, entry.data);
+  }
+}
@@ -1,6 +1,13 @@
-import { describe, test, expect, jest, beforeEach } from '@jest/globals';
-import { TypeSafeEmitter, WildcardEventHandler } from './index';
-import { NoListenersError, InvalidEventNameError } from './errors';
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { EventEmitter } from 'events';
+import { createConnection } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import { MessageChannel } from 'worker_threads';
+import { Clock, EmitterScope, EventLog, SocketClient, TypeSafeEmitter, WildcardEventHandler, binaryCodec, connectPort, connectSocket, fromEventTarget, fromNodeEmitter, jsonCodec, redispatch, replay, serveSocket, toEventTarget, toNodeEmitter } from './index';
+import { NoListenersError, InvalidEventNameError, HandlerError, TypeSafeEmitterError, EmitTimeoutError, AbortError, WaitForTimeoutError, BufferOverflowError, InvalidPayloadError, PossibleListenerLeak, ScopeDisposedError, NoResponderError, DuplicateResponderError, RequestTimeoutError, RemoteHandlerError, ConnectionClosedError, FrameError, CodecError, CorruptLogError, LogClosedError, UnhandledErrorEventError } from './errors';
 
 // Define our event map with type-safe event names and payload types
 interface MyEvents {
@@ -107,7 +114,8 @@ describe('TypeSafeEmitter', () => {
     });
 
     test('emit should not throw NoListenersError if throwOnNoListeners is true and wildcard listeners exist', () => {
-      emitterWithOptions.on('user.*', jest.fn() as WildcardEventHandler);
+      // 'user.*' matches no key of MyEvents, so it is only accepted on an untyped emitter
+      (emitterWithOptions as TypeSafeEmitter<any>).on('user.*', jest.fn() as WildcardEventHandler);
       expect(() => {
         // Assuming MyEvents can have 'user.joined' or similar for this test
       // Need to cast to use a string event name not strictly in MyEvents for this wildcard test
@@ -155,6 +163,74 @@ describe('TypeSafeEmitter', () => {
     });
 
 
+    test('emit should wrap a handler exception in a HandlerError carrying the event and cause', () => {
+      const cause = new Error('boom');
+      emitter.on('userLeft', () => { throw cause; });
+
+      let thrown: unknown;
+      try {
+        emitter.emit('userLeft', 'john');
+      } catch (err) {
+        thrown = err;
+      }
+      expect(thrown).toBeInstanceOf(HandlerError);
+      expect(thrown).toBeInstanceOf(TypeSafeEmitterError);
+      expect((thrown as HandlerError).eventName).toBe('userLeft');
+      expect((thrown as HandlerError).cause).toBe(cause);
+      expect((thrown as HandlerError).message).toBe('Handler for event "userLeft" failed: boom');
+    });
+
+    test('emit with aggregateErrors should run every handler and throw an AggregateError', () => {
+      const aggregatingEmitter = new TypeSafeEmitter<MyEvents>({ aggregateErrors: true });
+      const lastHandler = jest.fn(() => {});
+      aggregatingEmitter.on('userLeft', () => { throw new Error('first'); });
+      aggregatingEmitter.on('*', () => { throw new Error('second'); });
+      aggregatingEmitter.on('userLeft', lastHandler);
+
+      let thrown: unknown;
+      try {
+        aggregatingEmitter.emit('userLeft', 'john');
+      } catch (err) {
+        thrown = err;
+      }
+      expect(lastHandler).toHaveBeenCalledTimes(1);
+      expect(thrown).toBeInstanceOf(AggregateError);
+      const errors = (thrown as AggregateError).errors as HandlerError[];
+      expect(errors).toHaveLength(2);
+      expect(errors.every(error => error instanceof HandlerError)).toBe(true);
+      expect(errors.map(error => (error.cause as Error).message)).toEqual(['first', 'second']);
+    });
+
+    test('emit with onHandlerError should route failures and keep calling handlers', () => {
+      const onHandlerError = jest.fn((error: HandlerError, context: { eventName: keyof MyEvents; handler: unknown; data: unknown }) => {});
+      const routingEmitter = new TypeSafeEmitter<MyEvents>({ onHandlerError, aggregateErrors: true });
+      const failingHandler = () => { throw new Error('sync failure'); };
+      const laterHandler = jest.fn(() => {});
+      routingEmitter.once('userLeft', failingHandler);
+      routingEmitter.on('userLeft', laterHandler);
+
+      expect(() => routingEmitter.emit('userLeft', 'john')).not.toThrow();
+      expect(laterHandler).toHaveBeenCalledTimes(1);
+      expect(onHandlerError).toHaveBeenCalledTimes(1);
+      const [error, context] = onHandlerError.mock.calls[0];
+      expect(error).toBeInstanceOf(HandlerError);
+      expect((error.cause as Error).message).toBe('sync failure');
+      expect(context).toEqual({ eventName: 'userLeft', handler: failingHandler, data: 'john' });
+    });
+
+    test('emit with onHandlerError should route rejections of async handlers', async () => {
+      const onHandlerError = jest.fn(() => {});
+      const routingEmitter = new TypeSafeEmitter<MyEvents>({ onHandlerError });
+      routingEmitter.on('userLeft', async () => { throw new Error('async failure'); });
+
+      routingEmitter.emit('userLeft', 'john');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(onHandlerError).toHaveBeenCalledTimes(1);
+      const [error] = onHandlerError.mock.calls[0] as unknown as [HandlerError];
+      expect((error.cause as Error).message).toBe('async failure');
+    });
+
     test('clear should not throw InvalidEventNameError if eventName is undefined', () => {
       expect(() => emitter.clear()).not.toThrow();
     });
@@ -249,7 +325,7 @@ describe('TypeSafeEmitter', () => {
       const patternHandlerAsync = jest.fn().mockImplementation(async () => { await delay(5); });
       
       emitter.on('*', starHandlerAsync as WildcardEventHandler);
-      emitter.on('user.*', patternHandlerAsync as WildcardEventHandler);
+      (emitter as TypeSafeEmitter<any>).on('user.*', patternHandlerAsync as WildcardEventHandler);
       
       const eventData = { userId: 'userAsyncWildcard', username: 'TestUser' };
       // Cast to any for this specific test structure if 'user.joined' is not in MyEvents
@@ -536,6 +612,106 @@ describe('TypeSafeEmitter', () => {
       expect(mockSpecificUserCreatedHandler).toHaveBeenCalledTimes(1); 
     });
 
+    interface SegmentEvents {
+      'user.42.profile': {};
+      'user.42.profile.updated': { ok: boolean };
+      'user.42.settings.updated': {};
+      'user.42.profile.avatar.changed': {};
+      'user.created': {};
+      'user.action.click': {};
+      'user.myaction.x': {};
+      'myaction.x': {};
+      'audit': {};
+      'audit.login': {};
+      'audit.login.oauth.failed': {};
+      'auditing.login': {};
+      'x.a.x.b.x': {};
+    }
+
+    test('should match "*" against exactly one segment anywhere in a pattern', () => {
+      const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+      const mockHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      segmentEmitter.on('user.*.profile.*', mockHandler);
+
+      segmentEmitter.emit('user.42.profile.updated', { ok: true });
+      expect(mockHandler).toHaveBeenCalledWith('user.42.profile.updated', { ok: true });
+
+      segmentEmitter.emit('user.42.profile', {});
+      segmentEmitter.emit('user.42.settings.updated', {});
+      segmentEmitter.emit('user.42.profile.avatar.changed', {});
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not match partial segments for "*.action.*" patterns', () => {
+      const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+      const mockHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      segmentEmitter.on('*.action.*', mockHandler);
+
+      segmentEmitter.emit('myaction.x', {});
+      segmentEmitter.emit('user.myaction.x', {});
+      expect(mockHandler).not.toHaveBeenCalled();
+
+      segmentEmitter.emit('user.action.click', {});
+      expect(mockHandler).toHaveBeenCalledWith('user.action.click', {});
+    });
+
+    test('should match any number of segments with "**"', () => {
+      const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+      const mockTrailingHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      const mockInnerHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      segmentEmitter.on('audit.**', mockTrailingHandler);
+      segmentEmitter.on('audit.**.failed', mockInnerHandler);
+
+      segmentEmitter.emit('audit', {});
+      segmentEmitter.emit('audit.login', {});
+      segmentEmitter.emit('audit.login.oauth.failed', {});
+      segmentEmitter.emit('auditing.login', {});
+
+      expect(mockTrailingHandler.mock.calls.map(call => call[0])).toEqual(['audit', 'audit.login', 'audit.login.oauth.failed']);
+      expect(mockInnerHandler.mock.calls.map(call => call[0])).toEqual(['audit.login.oauth.failed']);
+    });
+
+    test('should call a pattern listener once even if "**" matches along several paths', () => {
+      const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+      const mockHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      segmentEmitter.on('**.x.**', mockHandler);
+
+      segmentEmitter.emit('x.a.x.b.x', {});
+      expect(mockHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('should call matching patterns in registration order', () => {
+      const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+      const calls: string[] = [];
+      segmentEmitter.on('*.created', () => { calls.push('*.created'); });
+      segmentEmitter.on('user.**', () => { calls.push('user.**'); });
+      segmentEmitter.on('user.*', () => { calls.push('user.*'); });
+
+      segmentEmitter.emit('user.created', {});
+      expect(calls).toEqual(['*.created', 'user.**', 'user.*']);
+    });
+
+    test('should stop matching a pattern once its last listener is removed', () => {
+      const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+      const mockHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      segmentEmitter.emit('user.created', {});
+      segmentEmitter.on('user.*', mockHandler);
+      segmentEmitter.emit('user.created', {});
+      segmentEmitter.off('user.*', mockHandler);
+      segmentEmitter.emit('user.created', {});
+      segmentEmitter.on('user.*', mockHandler);
+      segmentEmitter.emit('user.created', {});
+      expect(mockHandler).toHaveBeenCalledTimes(2);
+    });
+
+    const malformedPatterns = ['user.*x', 'user..*', '.*', 'user.***'];
+    malformedPatterns.forEach(pattern => {
+      test(`on should throw InvalidEventNameError for malformed pattern "${pattern}"`, () => {
+        const segmentEmitter = new TypeSafeEmitter<SegmentEvents>();
+        expect(() => segmentEmitter.on(pattern, jest.fn() as WildcardEventHandler)).toThrow(InvalidEventNameError);
+      });
+    });
+
     test('emit should not throw NoListenersError if throwOnNoListeners is true and wildcard listeners exist for specific event', () => {
       const mockWildcardHandlerImpl: WildcardEventHandler = () => {};
       wildcardEmitterWithOptions.on('user.*', jest.fn(mockWildcardHandlerImpl));
@@ -544,4 +720,3112 @@ describe('TypeSafeEmitter', () => {
       }).not.toThrow(NoListenersError);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Pattern Type Inference', () => {
+    interface TypedEvents {
+      'user.created': { id: string; name: string };
+      'user.deleted': { id: string };
+      'post.created': { postId: string };
+      'admin.user.banned': { id: string; reason: string };
+      heartbeat: number;
+    }
+    let typedEmitter: TypeSafeEmitter<TypedEvents>;
+
+    beforeEach(() => {
+      typedEmitter = new TypeSafeEmitter<TypedEvents>();
+    });
+
+    test('should narrow pattern payloads by event name', () => {
+      const names: string[] = [];
+      typedEmitter.on('user.*', (eventName, data) => {
+        if (eventName === 'user.created') {
+          names.push(data.name);
+        } else {
+          const deletedName: 'user.deleted' = eventName;
+          names.push(`${deletedName}:${data.id}`);
+        }
+      });
+
+      typedEmitter.emit('user.created', { id: 'u1', name: 'Alice' });
+      typedEmitter.emit('user.deleted', { id: 'u2' });
+      expect(names).toEqual(['Alice', 'user.deleted:u2']);
+    });
+
+    test('should type "*" and "**" handlers over every event', () => {
+      const seen: Array<keyof TypedEvents> = [];
+      typedEmitter.on('*', (eventName, data) => {
+        if (eventName === 'heartbeat') {
+          const beat: number = data;
+          expect(beat).toBe(1);
+        }
+        seen.push(eventName);
+      });
+      typedEmitter.once('admin.**', (eventName, data) => {
+        const reason: string = data.reason;
+        expect(reason).toBe('spam');
+        seen.push(eventName);
+      });
+
+      typedEmitter.emit('heartbeat', 1);
+      typedEmitter.emit('admin.user.banned', { id: 'u1', reason: 'spam' });
+      expect(seen).toEqual(['heartbeat', 'admin.user.banned', 'admin.user.banned']);
+    });
+
+    test('should accept the same typed handler in off', () => {
+      const handler = jest.fn((eventName: 'user.created' | 'post.created', data: { id: string } | { postId: string }) => {});
+      typedEmitter.on('*.created', handler);
+      typedEmitter.off('*.created', handler);
+      typedEmitter.emit('post.created', { postId: 'p1' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('should reject patterns that match no event at compile time', () => {
+      const handler = jest.fn() as WildcardEventHandler;
+      // @ts-expect-error 'comment.*' matches no key of TypedEvents
+      typedEmitter.on('comment.*', handler);
+      // @ts-expect-error 'admin.*' matches one segment after 'admin', so it cannot match 'admin.user.banned'
+      typedEmitter.once('admin.*', handler);
+      // @ts-expect-error the pattern must match for off as well
+      typedEmitter.off('*.updated', handler);
+
+      // @ts-expect-error a pattern handler receives (eventName, data), not the payload alone
+      typedEmitter.on('user.*', (data: { id: string }) => {});
+    });
+  });
+
+  describe('Listener Priorities', () => {
+    interface PriorityEvents {
+      'order.placed': { orderId: string };
+      'order.cancelled': { orderId: string };
+    }
+    let priorityEmitter: TypeSafeEmitter<PriorityEvents>;
+    let calls: string[];
+
+    beforeEach(() => {
+      priorityEmitter = new TypeSafeEmitter<PriorityEvents>();
+      calls = [];
+    });
+
+    test('should run listeners in registration order across categories by default', () => {
+      priorityEmitter.on('order.*', () => { calls.push('pattern'); });
+      priorityEmitter.on('*', () => { calls.push('star'); });
+      priorityEmitter.on('order.placed', () => { calls.push('exact'); });
+
+      priorityEmitter.emit('order.placed', { orderId: 'o1' });
+      expect(calls).toEqual(['pattern', 'star', 'exact']);
+    });
+
+    test('should order exact, star and pattern listeners by priority', () => {
+      priorityEmitter.on('order.placed', () => { calls.push('business'); });
+      priorityEmitter.on('order.*', () => { calls.push('cache invalidation'); }, { priority: -100 });
+      priorityEmitter.on('*', () => { calls.push('audit'); }, { priority: 100 });
+      priorityEmitter.on('order.placed', () => { calls.push('validation'); }, { priority: 10 });
+
+      priorityEmitter.emit('order.placed', { orderId: 'o1' });
+      expect(calls).toEqual(['audit', 'validation', 'business', 'cache invalidation']);
+    });
+
+    test('should run prepended listeners before existing listeners of the same priority', () => {
+      priorityEmitter.on('order.placed', () => { calls.push('first'); });
+      priorityEmitter.on('*', () => { calls.push('prepended'); }, { prepend: true });
+      priorityEmitter.on('order.*', () => { calls.push('prepended last'); }, { prepend: true });
+      priorityEmitter.on('order.placed', () => { calls.push('high'); }, { priority: 1 });
+
+      priorityEmitter.emit('order.placed', { orderId: 'o1' });
+      expect(calls).toEqual(['high', 'prepended last', 'prepended', 'first']);
+    });
+
+    test('should apply priority to once listeners', () => {
+      priorityEmitter.on('order.cancelled', () => { calls.push('regular'); });
+      priorityEmitter.once('order.cancelled', () => { calls.push('once'); }, { priority: 5 });
+
+      priorityEmitter.emit('order.cancelled', { orderId: 'o1' });
+      priorityEmitter.emit('order.cancelled', { orderId: 'o2' });
+      expect(calls).toEqual(['once', 'regular', 'regular']);
+    });
+
+    test('should skip listeners removed by an earlier listener during the same emit', () => {
+      const late = jest.fn(() => {});
+      priorityEmitter.on('order.placed', () => { priorityEmitter.off('order.*', late); }, { priority: 1 });
+      priorityEmitter.on('order.*', late);
+
+      priorityEmitter.emit('order.placed', { orderId: 'o1' });
+      expect(late).not.toHaveBeenCalled();
+    });
+
+    test('emitAsync should start listeners in priority order', async () => {
+      priorityEmitter.on('order.placed', async () => { calls.push('low'); }, { priority: -1 });
+      priorityEmitter.on('*', async () => { calls.push('high'); }, { priority: 1 });
+
+      await priorityEmitter.emitAsync('order.placed', { orderId: 'o1' });
+      expect(calls).toEqual(['high', 'low']);
+    });
+  });
+
+  describe('emitAsync Execution Strategies', () => {
+    const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+    test('serial mode should run handlers one at a time in order', async () => {
+      const log: string[] = [];
+      emitter.on('userLeft', async () => { log.push('a:start'); await delay(10); log.push('a:end'); });
+      emitter.on('userLeft', async () => { log.push('b:start'); await delay(1); log.push('b:end'); });
+
+      const result = await emitter.emitAsync('userLeft', 'john', { mode: 'serial' });
+      expect(log).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+      expect(result.mode).toBe('serial');
+      expect(result.outcomes.map(outcome => outcome.status)).toEqual(['fulfilled', 'fulfilled']);
+    });
+
+    test('serial mode should stop at the first failure and skip the rest', async () => {
+      const later = jest.fn(() => {});
+      emitter.on('userLeft', async () => { throw new Error('import failed'); });
+      emitter.on('userLeft', later);
+
+      await expect(emitter.emitAsync('userLeft', 'john', { mode: 'serial' })).rejects.toBeInstanceOf(HandlerError);
+      expect(later).not.toHaveBeenCalled();
+    });
+
+    test('parallel mode should reject with a HandlerError carrying the cause', async () => {
+      const cause = new Error('fan-out failed');
+      emitter.on('userLeft', async () => { throw cause; });
+
+      const rejection = emitter.emitAsync('userLeft', 'john', { mode: 'parallel' });
+      await expect(rejection).rejects.toBeInstanceOf(HandlerError);
+      await expect(rejection).rejects.toMatchObject({ eventName: 'userLeft', cause });
+    });
+
+    test('allSettled mode should run every handler and report each outcome', async () => {
+      const failing = async () => { await delay(1); throw new Error('push failed'); };
+      const succeeding = async () => { await delay(5); };
+      emitter.on('userLeft', failing);
+      emitter.on('userLeft', succeeding);
+
+      const result = await emitter.emitAsync('userLeft', 'john', { mode: 'allSettled' });
+      expect(result.eventName).toBe('userLeft');
+      expect(result.outcomes).toHaveLength(2);
+      expect(result.outcomes[0]).toMatchObject({ handler: failing, status: 'rejected' });
+      expect((result.outcomes[0].error as Error).message).toBe('push failed');
+      expect(result.outcomes[1]).toMatchObject({ handler: succeeding, status: 'fulfilled' });
+      expect(result.outcomes[1].duration).toBeGreaterThanOrEqual(4);
+      expect(result.duration).toBeGreaterThanOrEqual(result.outcomes[1].duration);
+    });
+
+    test('concurrency should cap the number of handlers running at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      for (let i = 0; i < 6; i++) {
+        emitter.on('userLeft', async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await delay(5);
+          running--;
+        });
+      }
+
+      const result = await emitter.emitAsync('userLeft', 'john', { mode: 'allSettled', concurrency: 2 });
+      expect(maxRunning).toBe(2);
+      expect(result.outcomes.every(outcome => outcome.status === 'fulfilled')).toBe(true);
+    });
+
+    test('handlerTimeout should fail slow handlers with an EmitTimeoutError', async () => {
+      emitter.on('userLeft', () => delay(50));
+      emitter.on('userLeft', () => delay(1));
+
+      const result = await emitter.emitAsync('userLeft', 'john', { mode: 'allSettled', handlerTimeout: 10 });
+      expect(result.outcomes[0].status).toBe('rejected');
+      expect(result.outcomes[0].error).toBeInstanceOf(EmitTimeoutError);
+      expect(result.outcomes[0].error).toMatchObject({ scope: 'handler', timeout: 10, eventName: 'userLeft' });
+      expect(result.outcomes[1].status).toBe('fulfilled');
+    });
+
+    test('timeout should reject the whole emission with an EmitTimeoutError', async () => {
+      const queued = jest.fn(() => {});
+      emitter.on('userLeft', () => delay(50));
+      emitter.on('userLeft', queued);
+
+      const rejection = emitter.emitAsync('userLeft', 'john', { mode: 'serial', timeout: 10 });
+      await expect(rejection).rejects.toBeInstanceOf(EmitTimeoutError);
+      await expect(rejection).rejects.toMatchObject({ scope: 'emit', timeout: 10 });
+      await delay(60);
+      expect(queued).not.toHaveBeenCalled();
+    });
+
+    test('concurrency below 1 should be rejected', async () => {
+      emitter.on('userLeft', () => {});
+      await expect(emitter.emitAsync('userLeft', 'john', { concurrency: 0 })).rejects.toThrow(RangeError);
+    });
+  });
+
+  describe('AbortSignal Support', () => {
+    const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+    interface ScopedEvents {
+      'room.joined': { roomId: string };
+      'room.left': { roomId: string };
+      tick: number;
+    }
+    let scopedEmitter: TypeSafeEmitter<ScopedEvents>;
+
+    beforeEach(() => {
+      scopedEmitter = new TypeSafeEmitter<ScopedEvents>();
+    });
+
+    test('aborting should remove exact, star and pattern subscriptions', () => {
+      const controller = new AbortController();
+      const exact = jest.fn(() => {});
+      const star = jest.fn(() => {});
+      const pattern = jest.fn(() => {});
+      const once = jest.fn(() => {});
+      scopedEmitter.on('tick', exact, { signal: controller.signal });
+      scopedEmitter.on('*', star, { signal: controller.signal });
+      scopedEmitter.on('room.*', pattern, { signal: controller.signal });
+      scopedEmitter.once('room.left', once, { signal: controller.signal });
+
+      scopedEmitter.emit('tick', 1);
+      scopedEmitter.emit('room.joined', { roomId: 'r1' });
+      controller.abort();
+      scopedEmitter.emit('tick', 2);
+      scopedEmitter.emit('room.left', { roomId: 'r1' });
+
+      expect(exact).toHaveBeenCalledTimes(1);
+      expect(star).toHaveBeenCalledTimes(2);
+      expect(pattern).toHaveBeenCalledTimes(1);
+      expect(once).not.toHaveBeenCalled();
+    });
+
+    test('an already aborted signal should not subscribe', () => {
+      const handler = jest.fn(() => {});
+      const unsubscribe = scopedEmitter.on('tick', handler, { signal: AbortSignal.abort() });
+      scopedEmitter.emit('tick', 1);
+      expect(handler).not.toHaveBeenCalled();
+      expect(() => unsubscribe()).not.toThrow();
+    });
+
+    test('unsubscribing should stop listening to the signal', () => {
+      const controller = new AbortController();
+      const removeEventListener = jest.spyOn(controller.signal, 'removeEventListener');
+      const unsubscribe = scopedEmitter.on('tick', () => {}, { signal: controller.signal });
+
+      unsubscribe();
+      expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+
+    test('emitAsync should reject with an AbortError when aborted and start no more handlers', async () => {
+      const controller = new AbortController();
+      const queued = jest.fn(() => {});
+      scopedEmitter.on('tick', () => delay(50));
+      scopedEmitter.on('tick', queued);
+
+      const emission = scopedEmitter.emitAsync('tick', 1, { mode: 'serial', signal: controller.signal });
+      controller.abort('shutting down');
+
+      await expect(emission).rejects.toBeInstanceOf(AbortError);
+      await expect(emission).rejects.toMatchObject({ reason: 'shutting down' });
+      await delay(60);
+      expect(queued).not.toHaveBeenCalled();
+    });
+
+    test('emitAsync should reject immediately for an already aborted signal', async () => {
+      const handler = jest.fn(() => {});
+      scopedEmitter.on('tick', handler);
+
+      await expect(scopedEmitter.emitAsync('tick', 1, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortError);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('emitAsync should pass the signal to handlers', async () => {
+      const controller = new AbortController();
+      let stoppedEarly = false;
+      scopedEmitter.on('tick', async (count, signal) => {
+        await delay(5);
+        stoppedEarly = signal?.aborted ?? false;
+      });
+      let patternSignal: AbortSignal | undefined;
+      const patternHandler: WildcardEventHandler = (eventName, data, signal) => {
+        patternSignal = signal;
+      };
+      scopedEmitter.on('room.*', patternHandler);
+
+      const emission = scopedEmitter.emitAsync('tick', 1, { mode: 'allSettled', signal: controller.signal });
+      controller.abort();
+      await expect(emission).rejects.toBeInstanceOf(AbortError);
+      await delay(10);
+      expect(stoppedEarly).toBe(true);
+
+      const patternController = new AbortController();
+      await scopedEmitter.emitAsync('room.joined', { roomId: 'r1' }, { signal: patternController.signal });
+      expect(patternSignal).toBe(patternController.signal);
+    });
+  });
+
+  describe('Waiting for Events', () => {
+    interface RoomEvents {
+      roomJoined: { roomId: string; userId: string };
+      roomLeft: { roomId: string };
+      ready: boolean;
+    }
+    let roomEmitter: TypeSafeEmitter<RoomEvents>;
+
+    beforeEach(() => {
+      roomEmitter = new TypeSafeEmitter<RoomEvents>();
+    });
+
+    test('waitFor should resolve with the next payload and remove its listener', async () => {
+      const joined = roomEmitter.waitFor('roomJoined');
+      roomEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' });
+
+      await expect(joined).resolves.toEqual({ roomId: 'r1', userId: 'u1' });
+      const strictEmitter = new TypeSafeEmitter<RoomEvents>({ throwOnNoListeners: true });
+      const ready = strictEmitter.waitFor('ready');
+      strictEmitter.emit('ready', true);
+      await ready;
+      expect(() => strictEmitter.emit('ready', true)).toThrow(NoListenersError);
+    });
+
+    test('waitFor should skip payloads rejected by the filter', async () => {
+      const joined = roomEmitter.waitFor('roomJoined', { filter: payload => payload.roomId === 'r2' });
+      roomEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' });
+      roomEmitter.emit('roomJoined', { roomId: 'r2', userId: 'u2' });
+
+      await expect(joined).resolves.toEqual({ roomId: 'r2', userId: 'u2' });
+    });
+
+    test('waitFor should reject with a WaitForTimeoutError and remove its listener', async () => {
+      const strictEmitter = new TypeSafeEmitter<RoomEvents>({ throwOnNoListeners: true });
+      const joined = strictEmitter.waitFor('roomJoined', { timeout: 10 });
+
+      await expect(joined).rejects.toBeInstanceOf(WaitForTimeoutError);
+      await expect(joined).rejects.toMatchObject({ eventNames: ['roomJoined'], timeout: 10 });
+      expect(() => strictEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' })).toThrow(NoListenersError);
+    });
+
+    test('waitFor should reject with an AbortError when the signal is aborted', async () => {
+      const strictEmitter = new TypeSafeEmitter<RoomEvents>({ throwOnNoListeners: true });
+      const controller = new AbortController();
+      const joined = strictEmitter.waitFor('roomJoined', { signal: controller.signal });
+      controller.abort('left page');
+
+      await expect(joined).rejects.toBeInstanceOf(AbortError);
+      await expect(joined).rejects.toMatchObject({ reason: 'left page' });
+      expect(() => strictEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' })).toThrow(NoListenersError);
+      await expect(strictEmitter.waitFor('ready', { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    });
+
+    test('waitFor should reject if the filter throws', async () => {
+      const joined = roomEmitter.waitFor('roomJoined', { filter: () => { throw new Error('bad filter'); } });
+      roomEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' });
+      await expect(joined).rejects.toThrow('bad filter');
+    });
+
+    test('waitForAny should resolve with the first matching event', async () => {
+      const first = roomEmitter.waitForAny(['roomJoined', 'roomLeft'], {
+        filter: (eventName, data) => eventName === 'roomLeft' || data.userId === 'u2',
+      });
+      roomEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' });
+      roomEmitter.emit('roomLeft', { roomId: 'r1' });
+      roomEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u2' });
+
+      const result = await first;
+      expect(result).toEqual({ eventName: 'roomLeft', data: { roomId: 'r1' } });
+      if (result.eventName === 'roomJoined') {
+        const userId: string = result.data.userId;
+        expect(userId).toBeDefined();
+      }
+    });
+
+    test('waitForAll should resolve with a typed tuple once every event occurred', async () => {
+      const all = roomEmitter.waitForAll(['ready', 'roomJoined']);
+      roomEmitter.emit('roomJoined', { roomId: 'r1', userId: 'u1' });
+      roomEmitter.emit('roomJoined', { roomId: 'r2', userId: 'u2' });
+      roomEmitter.emit('ready', true);
+
+      const [isReady, joined] = await all;
+      const typedReady: boolean = isReady;
+      const typedRoom: string = joined.roomId;
+      expect(typedReady).toBe(true);
+      expect(typedRoom).toBe('r1');
+    });
+
+    test('waitForAll should time out and remove every listener', async () => {
+      const strictEmitter = new TypeSafeEmitter<RoomEvents>({ throwOnNoListeners: true });
+      const all = strictEmitter.waitForAll(['ready', 'roomLeft'], { timeout: 10 });
+      strictEmitter.emit('ready', true);
+
+      await expect(all).rejects.toMatchObject({ eventNames: ['ready', 'roomLeft'] });
+      expect(() => strictEmitter.emit('roomLeft', { roomId: 'r1' })).toThrow(NoListenersError);
+    });
+
+    test('waitForAny should reject an empty list of events', async () => {
+      await expect(roomEmitter.waitForAny([])).rejects.toBeInstanceOf(InvalidEventNameError);
+      await expect(roomEmitter.waitForAll([])).resolves.toEqual([]);
+    });
+  });
+
+  describe('Async Iteration', () => {
+    interface ChatEvents {
+      'chat.message': { text: string };
+      'chat.typing': { userId: string };
+      'system.ping': number;
+    }
+    let chatEmitter: TypeSafeEmitter<ChatEvents>;
+
+    beforeEach(() => {
+      chatEmitter = new TypeSafeEmitter<ChatEvents>({ throwOnNoListeners: true });
+    });
+
+    test('iterate should yield payloads in order, including ones emitted before the first next', async () => {
+      const messages = chatEmitter.iterate('chat.message');
+      chatEmitter.emit('chat.message', { text: 'a' });
+
+      const received: string[] = [];
+      setTimeout(() => chatEmitter.emit('chat.message', { text: 'b' }), 5);
+      for await (const message of messages) {
+        received.push(message.text);
+        if (received.length === 2) {
+          break;
+        }
+      }
+
+      expect(received).toEqual(['a', 'b']);
+      expect(() => chatEmitter.emit('chat.message', { text: 'c' })).toThrow(NoListenersError);
+    });
+
+    test('iterate over a pattern should yield [eventName, data] tuples', async () => {
+      const events = chatEmitter.iterate('chat.*');
+      chatEmitter.emit('chat.typing', { userId: 'u1' });
+      chatEmitter.emit('chat.message', { text: 'hi' });
+
+      const first = await events.next();
+      const second = await events.next();
+      expect(first.value).toEqual(['chat.typing', { userId: 'u1' }]);
+      expect(second.value).toEqual(['chat.message', { text: 'hi' }]);
+
+      if (!second.done) {
+        const [eventName, data] = second.value;
+        if (eventName === 'chat.message') {
+          const text: string = data.text;
+          expect(text).toBe('hi');
+        }
+      }
+      await events.return!();
+      expect(() => chatEmitter.emit('chat.typing', { userId: 'u1' })).toThrow(NoListenersError);
+    });
+
+    test("'drop-oldest' should keep the most recent events", async () => {
+      const pings = chatEmitter.iterate('system.ping', { bufferSize: 2 });
+      [1, 2, 3, 4].forEach(n => chatEmitter.emit('system.ping', n));
+
+      expect((await pings.next()).value).toBe(3);
+      expect((await pings.next()).value).toBe(4);
+      await pings.return!();
+    });
+
+    test("'drop-newest' should keep the earliest events", async () => {
+      const pings = chatEmitter.iterate('system.ping', { bufferSize: 2, overflow: 'drop-newest' });
+      [1, 2, 3, 4].forEach(n => chatEmitter.emit('system.ping', n));
+
+      expect((await pings.next()).value).toBe(1);
+      expect((await pings.next()).value).toBe(2);
+      chatEmitter.emit('system.ping', 5);
+      expect((await pings.next()).value).toBe(5);
+      await pings.return!();
+    });
+
+    test("'error' should fail the iterator after the buffered events and unsubscribe", async () => {
+      const pings = chatEmitter.iterate('system.ping', { bufferSize: 1, overflow: 'error' });
+      chatEmitter.emit('system.ping', 1);
+      chatEmitter.emit('system.ping', 2);
+
+      expect(() => chatEmitter.emit('system.ping', 3)).toThrow(NoListenersError);
+      expect((await pings.next()).value).toBe(1);
+      await expect(pings.next()).rejects.toBeInstanceOf(BufferOverflowError);
+      expect(await pings.next()).toEqual({ value: undefined, done: true });
+    });
+
+    test('aborting the signal should reject a pending next with an AbortError', async () => {
+      const controller = new AbortController();
+      const pings = chatEmitter.iterate('system.ping', { signal: controller.signal });
+      const pending = pings.next();
+      controller.abort('closed');
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError', reason: 'closed' });
+      expect(() => chatEmitter.emit('system.ping', 1)).toThrow(NoListenersError);
+      await expect(chatEmitter.iterate('system.ping', { signal: controller.signal }).next()).rejects.toBeInstanceOf(AbortError);
+    });
+
+    test('return should resolve pending next calls as done', async () => {
+      const pings = chatEmitter.iterate('system.ping');
+      const pending = pings.next();
+      await pings.return!();
+      await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    });
+
+    test('iterate should reject an invalid bufferSize', () => {
+      expect(() => chatEmitter.iterate('system.ping', { bufferSize: 0 })).toThrow(RangeError);
+      expect(() => chatEmitter.emit('system.ping', 1)).toThrow(NoListenersError);
+    });
+  });
+
+  describe('Middleware', () => {
+    interface AppEvents {
+      'user.created': { name: string; createdAt?: number };
+      'user.deleted': { id: number };
+      'audit.login': { userId: string };
+    }
+    let appEmitter: TypeSafeEmitter<AppEvents>;
+
+    beforeEach(() => {
+      appEmitter = new TypeSafeEmitter<AppEvents>();
+    });
+
+    test('middleware should run in registration order before listeners and can rewrite data', () => {
+      const calls: string[] = [];
+      const handler = jest.fn();
+      appEmitter.use((ctx, next) => {
+        calls.push('first');
+        if (ctx.eventName === 'user.created') {
+          ctx.data = { ...ctx.data, createdAt: 123 };
+        }
+        next();
+        calls.push('first done');
+      });
+      appEmitter.use((ctx, next) => {
+        calls.push('second');
+        next();
+      });
+      appEmitter.on('user.created', data => {
+        calls.push('handler');
+        handler(data);
+      });
+
+      appEmitter.emit('user.created', { name: 'Ada' });
+
+      expect(calls).toEqual(['first', 'second', 'handler', 'first done']);
+      expect(handler).toHaveBeenCalledWith({ name: 'Ada', createdAt: 123 });
+    });
+
+    test('middleware that does not call next should stop delivery', async () => {
+      const handler = jest.fn(() => {});
+      const strictEmitter = new TypeSafeEmitter<AppEvents>({ throwOnNoListeners: true });
+      strictEmitter.use(() => {});
+      strictEmitter.on('user.deleted', handler);
+
+      expect(() => strictEmitter.emit('audit.login', { userId: 'u1' })).not.toThrow();
+      strictEmitter.emit('user.deleted', { id: 1 });
+      const result = await strictEmitter.emitAsync('user.deleted', { id: 1 }, {});
+      expect(result.outcomes).toEqual([]);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('middleware should share metadata and observe errors from next', () => {
+      const observed: unknown[] = [];
+      appEmitter.use((ctx, next) => {
+        ctx.metadata.traceId = 'abc';
+        try {
+          next();
+        } catch (err) {
+          observed.push(err);
+        }
+      });
+      appEmitter.use((ctx, next) => {
+        expect(ctx.metadata.traceId).toBe('abc');
+        next();
+      });
+      appEmitter.on('user.deleted', () => { throw new Error('boom'); });
+
+      expect(() => appEmitter.emit('user.deleted', { id: 1 })).not.toThrow();
+      expect(observed).toHaveLength(1);
+      expect(observed[0]).toBeInstanceOf(HandlerError);
+    });
+
+    test('middleware should apply only to the selected events and patterns', () => {
+      const seen: string[] = [];
+      appEmitter.use('user.*', (ctx, next) => {
+        seen.push(`user:${ctx.eventName}`);
+        next();
+      });
+      appEmitter.use(['audit.login', 'user.deleted'], (ctx, next) => {
+        seen.push(`selected:${ctx.eventName}`);
+        next();
+      });
+
+      appEmitter.emit('user.created', { name: 'Ada' });
+      appEmitter.emit('user.deleted', { id: 1 });
+      appEmitter.emit('audit.login', { userId: 'u1' });
+
+      expect(seen).toEqual([
+        'user:user.created',
+        'user:user.deleted',
+        'selected:user.deleted',
+        'selected:audit.login',
+      ]);
+    });
+
+    test('emitAsync should await async middleware and let it time delivery', async () => {
+      const durations: number[] = [];
+      appEmitter.use(async (ctx, next) => {
+        const start = Date.now();
+        await next();
+        durations.push(Date.now() - start);
+      });
+      appEmitter.use(async (ctx, next) => {
+        await new Promise<void>(resolve => setTimeout(resolve, 5));
+        await next();
+      });
+      const handler = jest.fn(async () => {
+        await new Promise<void>(resolve => setTimeout(resolve, 10));
+      });
+      appEmitter.on('user.created', handler);
+
+      await appEmitter.emitAsync('user.created', { name: 'Ada' });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(durations).toHaveLength(1);
+    });
+
+    test('emitAsync should propagate delivery errors when middleware does not return next', async () => {
+      appEmitter.use((ctx, next) => {
+        next();
+      });
+      appEmitter.on('user.deleted', async () => { throw new Error('boom'); });
+
+      await expect(appEmitter.emitAsync('user.deleted', { id: 1 })).rejects.toBeInstanceOf(HandlerError);
+    });
+
+    test('emitAsync should let middleware swallow delivery errors', async () => {
+      appEmitter.use(async (ctx, next) => {
+        try {
+          await next();
+        } catch {
+          // Delivery failures are tolerated for this event.
+        }
+      });
+      appEmitter.on('user.deleted', async () => { throw new Error('boom'); });
+
+      await expect(appEmitter.emitAsync('user.deleted', { id: 1 })).resolves.toBeUndefined();
+    });
+
+    test('emit should report failures of async middleware to onHandlerError', async () => {
+      const onHandlerError = jest.fn((error: HandlerError, context: { eventName: keyof AppEvents; handler: unknown; data: unknown }) => {});
+      const reporting = new TypeSafeEmitter<AppEvents>({ onHandlerError });
+      const failure = new Error('audit store offline');
+      const middleware = async (ctx: unknown, next: () => void | Promise<void>) => {
+        await next();
+        throw failure;
+      };
+      reporting.use(middleware);
+      reporting.on('user.deleted', () => {});
+
+      reporting.emit('user.deleted', { id: 1 });
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(onHandlerError).toHaveBeenCalledTimes(1);
+      const [error, context] = onHandlerError.mock.calls[0];
+      expect(error).toBeInstanceOf(HandlerError);
+      expect(error.cause).toBe(failure);
+      expect(context).toEqual({ eventName: 'user.deleted', handler: middleware, data: { id: 1 } });
+    });
+
+    test('removing middleware and calling next twice', () => {
+      const remove = appEmitter.use((ctx, next) => {
+        next();
+        next();
+      });
+      appEmitter.on('user.deleted', jest.fn(() => {}));
+
+      expect(() => appEmitter.emit('user.deleted', { id: 1 })).toThrow('next() called multiple times');
+      remove();
+      expect(() => appEmitter.emit('user.deleted', { id: 1 })).not.toThrow();
+    });
+
+    test('use should validate its selectors', () => {
+      expect(() => appEmitter.use([], (ctx, next) => next())).toThrow(InvalidEventNameError);
+      expect(() => (appEmitter as TypeSafeEmitter<any>).use('user.**x', (ctx, next) => next())).toThrow(InvalidEventNameError);
+      // @ts-expect-error the pattern matches no event
+      appEmitter.use('post.*', (ctx, next) => next());
+    });
+  });
+
+  describe('Payload Validation', () => {
+    interface OrderEvents {
+      orderPlaced: { id: string; quantity: number };
+      orderCancelled: { id: string };
+      note: string;
+    }
+
+    const isOrderCancelled = (data: unknown): data is OrderEvents['orderCancelled'] =>
+      typeof data === 'object' && data !== null && typeof (data as { id?: unknown }).id === 'string';
+
+    // A minimal stand-in for a schema library: parse returns a normalised copy or throws with issues.
+    const orderPlacedSchema = {
+      parse(data: unknown): OrderEvents['orderPlaced'] {
+        const candidate = data as { id?: unknown; quantity?: unknown };
+        const issues: Array<{ path: string[]; message: string }> = [];
+        if (typeof candidate?.id !== 'string') {
+          issues.push({ path: ['id'], message: 'Expected string' });
+        }
+        if (typeof candidate?.quantity !== 'number') {
+          issues.push({ path: ['quantity'], message: 'Expected number' });
+        }
+        if (issues.length > 0) {
+          throw Object.assign(new Error('Validation failed'), { issues });
+        }
+        return { id: candidate.id as string, quantity: candidate.quantity as number };
+      },
+    };
+
+    const validators = { orderPlaced: orderPlacedSchema, orderCancelled: isOrderCancelled };
+
+    test('emit should reject payloads failing a parse validator with its issues', () => {
+      const orderEmitter = new TypeSafeEmitter<OrderEvents>({ validators });
+      const handler = jest.fn(() => {});
+      orderEmitter.on('orderPlaced', handler);
+
+      let caught: unknown;
+      try {
+        orderEmitter.emit('orderPlaced', { id: 42, quantity: 'many' } as any);
+      } catch (err) {
+        caught = err;
+      }
+
+      expect(caught).toBeInstanceOf(InvalidPayloadError);
+      expect(caught).toBeInstanceOf(TypeSafeEmitterError);
+      const error = caught as InvalidPayloadError;
+      expect(error.eventName).toBe('orderPlaced');
+      expect(error.issues).toEqual([
+        { path: ['id'], message: 'Expected string' },
+        { path: ['quantity'], message: 'Expected number' },
+      ]);
+      expect(error.message).toBe('Invalid payload for event "orderPlaced": id: Expected string; quantity: Expected number');
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('emit should deliver the value returned by a parse validator', () => {
+      const orderEmitter = new TypeSafeEmitter<OrderEvents>({ validators });
+      const handler = jest.fn(() => {}) as jest.MockedFunction<(data: OrderEvents['orderPlaced']) => void>;
+      orderEmitter.on('orderPlaced', handler);
+
+      orderEmitter.emit('orderPlaced', { id: 'o1', quantity: 2, extra: true } as any);
+      expect(handler).toHaveBeenCalledWith({ id: 'o1', quantity: 2 });
+    });
+
+    test('type guard validators and events without validators', () => {
+      const orderEmitter = new TypeSafeEmitter<OrderEvents>({ validators });
+      const noteHandler = jest.fn(() => {});
+      orderEmitter.on('note', noteHandler);
+
+      expect(() => orderEmitter.emit('orderCancelled', { id: 'o1' })).not.toThrow();
+      expect(() => orderEmitter.emit('orderCancelled', null as any)).toThrow(InvalidPayloadError);
+      orderEmitter.emit('note', 123 as any);
+      expect(noteHandler).toHaveBeenCalledWith(123);
+    });
+
+    test('emitAsync should reject invalid payloads before running middleware', async () => {
+      const orderEmitter = new TypeSafeEmitter<OrderEvents>({ validators });
+      const middleware = jest.fn((ctx: unknown, next: () => void) => next());
+      orderEmitter.use(middleware);
+
+      await expect(orderEmitter.emitAsync('orderCancelled', {} as any)).rejects.toBeInstanceOf(InvalidPayloadError);
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    test("'development' validation should be skipped in production", () => {
+      const previous = process.env.NODE_ENV;
+      try {
+        process.env.NODE_ENV = 'production';
+        const prodEmitter = new TypeSafeEmitter<OrderEvents>({ validators, validation: 'development' });
+        expect(() => prodEmitter.emit('orderCancelled', null as any)).not.toThrow();
+
+        process.env.NODE_ENV = 'test';
+        const devEmitter = new TypeSafeEmitter<OrderEvents>({ validators, validation: 'development' });
+        expect(() => devEmitter.emit('orderCancelled', null as any)).toThrow(InvalidPayloadError);
+
+        const disabledEmitter = new TypeSafeEmitter<OrderEvents>({ validators, validation: 'never' });
+        expect(() => disabledEmitter.emit('orderCancelled', null as any)).not.toThrow();
+      } finally {
+        process.env.NODE_ENV = previous;
+      }
+    });
+  });
+
+  describe('Introspection', () => {
+    interface ShopEvents {
+      'cart.added': { sku: string };
+      'cart.removed': { sku: string };
+      'order.placed': { id: string };
+    }
+    let shopEmitter: TypeSafeEmitter<ShopEvents>;
+
+    beforeEach(() => {
+      shopEmitter = new TypeSafeEmitter<ShopEvents>();
+    });
+
+    test('listenerCount should include the star and pattern listeners that would fire', () => {
+      shopEmitter.on('cart.added', () => {});
+      shopEmitter.once('cart.added', () => {});
+      shopEmitter.on('cart.*', () => {});
+      shopEmitter.on('*', () => {});
+
+      expect(shopEmitter.listenerCount('cart.added')).toBe(4);
+      expect(shopEmitter.listenerCount('cart.removed')).toBe(2);
+      expect(shopEmitter.listenerCount('order.placed')).toBe(1);
+      expect(shopEmitter.listenerCount('cart.*')).toBe(1);
+      expect(shopEmitter.listenerCount('*')).toBe(1);
+      expect(shopEmitter.listenerCount()).toBe(4);
+      expect(() => shopEmitter.listenerCount('')).toThrow(InvalidEventNameError);
+    });
+
+    test('hasListeners should reflect subscriptions and their removal', () => {
+      expect(shopEmitter.hasListeners('order.placed')).toBe(false);
+      const unsubscribe = shopEmitter.on('order.*', () => {});
+      expect(shopEmitter.hasListeners('order.placed')).toBe(true);
+      expect(shopEmitter.hasListeners('cart.added')).toBe(false);
+      unsubscribe();
+      expect(shopEmitter.hasListeners('order.placed')).toBe(false);
+      expect(shopEmitter.listenerCount()).toBe(0);
+    });
+
+    test('listeners should return the original handlers in execution order', () => {
+      const exact = () => {};
+      const pattern = () => {};
+      const star = () => {};
+      const onceHandler = () => {};
+      shopEmitter.on('cart.added', exact);
+      shopEmitter.on('cart.*', pattern, { priority: 1 });
+      shopEmitter.on('*', star);
+      shopEmitter.once('cart.added', onceHandler, { prepend: true });
+
+      expect(shopEmitter.listeners('cart.added')).toEqual([pattern, onceHandler, exact, star]);
+      expect(shopEmitter.listeners('cart.*')).toEqual([pattern]);
+      expect(shopEmitter.listeners('order.placed')).toEqual([star]);
+    });
+
+    test('eventNames and patterns should list what is subscribed', () => {
+      expect(shopEmitter.eventNames()).toEqual([]);
+      expect(shopEmitter.patterns()).toEqual([]);
+
+      shopEmitter.on('order.placed', () => {});
+      shopEmitter.on('cart.added', () => {});
+      shopEmitter.on('cart.*', () => {});
+      shopEmitter.on('*', () => {});
+
+      expect(shopEmitter.eventNames()).toEqual(['order.placed', 'cart.added']);
+      expect(shopEmitter.patterns()).toEqual(['*', 'cart.*']);
+
+      shopEmitter.clear();
+      expect(shopEmitter.eventNames()).toEqual([]);
+      expect(shopEmitter.patterns()).toEqual([]);
+    });
+  });
+
+  describe('Listener Leak Detection', () => {
+    interface WidgetEvents {
+      'widget.render': { id: string };
+      'widget.resize': { width: number };
+    }
+
+    test('should warn once when maxListeners is exceeded, with recent subscription stacks', () => {
+      const warnings: PossibleListenerLeak[] = [];
+      const widgetEmitter = new TypeSafeEmitter<WidgetEvents>({ maxListeners: 2, onPossibleLeak: w => warnings.push(w) });
+
+      widgetEmitter.on('widget.render', () => {});
+      widgetEmitter.on('widget.render', () => {});
+      expect(warnings).toHaveLength(0);
+      widgetEmitter.on('widget.render', () => {});
+      widgetEmitter.on('widget.render', () => {});
+
+      expect(warnings).toHaveLength(1);
+      const [warning] = warnings;
+      expect(warning).toBeInstanceOf(PossibleListenerLeak);
+      expect(warning.eventName).toBe('widget.render');
+      expect(warning.reason).toBe('limit');
+      expect(warning.count).toBe(3);
+      expect(warning.limit).toBe(2);
+      expect(warning.stacks).toHaveLength(3);
+      expect(warning.stacks[0]).toContain('index.test.ts');
+      expect(widgetEmitter.listenerCount('widget.render')).toBe(4);
+    });
+
+    test('should count star and pattern listeners towards an event', () => {
+      const onPossibleLeak = jest.fn((warning: PossibleListenerLeak) => {});
+      const widgetEmitter = new TypeSafeEmitter<WidgetEvents>({ maxListeners: 2, onPossibleLeak });
+
+      widgetEmitter.on('*', () => {});
+      widgetEmitter.on('widget.*', () => {});
+      widgetEmitter.on('widget.resize', () => {});
+
+      expect(onPossibleLeak).toHaveBeenCalledTimes(1);
+      expect(onPossibleLeak.mock.calls[0][0]).toMatchObject({ eventName: 'widget.resize', count: 3 });
+    });
+
+    test('should apply per-event and per-pattern limits', () => {
+      const onPossibleLeak = jest.fn((warning: PossibleListenerLeak) => {});
+      const widgetEmitter = new TypeSafeEmitter<WidgetEvents>({
+        maxListeners: 1,
+        maxListenersPerEvent: { 'widget.render': 4, 'widget.*': 0 },
+        onPossibleLeak,
+      });
+
+      widgetEmitter.on('widget.*', () => {});
+      widgetEmitter.on('widget.*', () => {});
+      widgetEmitter.on('widget.render', () => {});
+      widgetEmitter.on('widget.render', () => {});
+      expect(onPossibleLeak).not.toHaveBeenCalled();
+
+      widgetEmitter.on('widget.render', () => {});
+      expect(onPossibleLeak).toHaveBeenCalledTimes(1);
+      expect(onPossibleLeak.mock.calls[0][0]).toMatchObject({ eventName: 'widget.render', count: 5, limit: 4 });
+    });
+
+    test('should detect the same handler added again through once', () => {
+      const onPossibleLeak = jest.fn((warning: PossibleListenerLeak) => {});
+      const widgetEmitter = new TypeSafeEmitter<WidgetEvents>({ maxListeners: 10, onPossibleLeak });
+      const handler = () => {};
+
+      widgetEmitter.on('widget.render', handler);
+      widgetEmitter.on('widget.render', handler); // a no-op, not a leak
+      expect(onPossibleLeak).not.toHaveBeenCalled();
+
+      widgetEmitter.once('widget.render', handler);
+      expect(onPossibleLeak).toHaveBeenCalledTimes(1);
+      expect(onPossibleLeak.mock.calls[0][0]).toMatchObject({ reason: 'duplicate', count: 2 });
+    });
+
+    test('strict mode should throw instead of adding the listener', () => {
+      const widgetEmitter = new TypeSafeEmitter<WidgetEvents>({ maxListeners: 1, strictMaxListeners: true });
+      widgetEmitter.on('widget.resize', () => {});
+
+      expect(() => widgetEmitter.on('widget.resize', () => {})).toThrow(PossibleListenerLeak);
+      expect(() => widgetEmitter.on('widget.resize', () => {})).toThrow(TypeSafeEmitterError);
+      expect(widgetEmitter.listenerCount('widget.resize')).toBe(1);
+    });
+
+    test('should default to console.warn and stay silent without limits', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      try {
+        const unlimited = new TypeSafeEmitter<WidgetEvents>();
+        const limited = new TypeSafeEmitter<WidgetEvents>({ maxListeners: 1 });
+        for (let i = 0; i < 20; i++) {
+          unlimited.on('widget.render', () => {});
+          limited.on('widget.render', () => {});
+        }
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toBeInstanceOf(PossibleListenerLeak);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+  });
+
+  describe('Scoped Emitters', () => {
+    interface AppEvents {
+      'user.created': { name: string };
+      'user.deleted': { id: number };
+      'user.profile.updated': { bio: string };
+      'post.created': { title: string };
+    }
+    let appEmitter: TypeSafeEmitter<AppEvents>;
+
+    beforeEach(() => {
+      appEmitter = new TypeSafeEmitter<AppEvents>();
+    });
+
+    test('emit through a scope should dispatch the prefixed event on the parent', () => {
+      const exact = jest.fn(() => {});
+      const star = jest.fn(() => {});
+      const pattern = jest.fn(() => {});
+      appEmitter.on('user.created', exact);
+      appEmitter.on('*', star);
+      appEmitter.on('user.*', pattern);
+
+      const users = appEmitter.scope('user');
+      users.emit('created', { name: 'Ada' });
+
+      expect(exact).toHaveBeenCalledWith({ name: 'Ada' });
+      expect(star).toHaveBeenCalledWith('user.created', { name: 'Ada' });
+      expect(pattern).toHaveBeenCalledWith('user.created', { name: 'Ada' });
+      // @ts-expect-error 'title' is a field of post events, not an event of the user scope
+      users.emit('title', {});
+    });
+
+    test("a scope's '*' listener should not receive the event named like the prefix", () => {
+      const sessions = new TypeSafeEmitter<{ user: { id: number }; 'user.created': { name: string } }>();
+      const all: unknown[] = [];
+      sessions.scope('user').on('*', (eventName, data) => {
+        all.push([eventName, data]);
+      });
+
+      sessions.emit('user', { id: 1 });
+      sessions.emit('user.created', { name: 'Ada' });
+
+      expect(all).toEqual([['created', { name: 'Ada' }]]);
+    });
+
+    test('scope listeners should receive parent emits and relative names', () => {
+      const users = appEmitter.scope('user');
+      const created = jest.fn(() => {});
+      const all: string[] = [];
+      users.on('created', created);
+      users.on('*', (eventName, data) => {
+        all.push(eventName);
+        if (eventName === 'profile.updated') {
+          const bio: string = data.bio;
+          expect(bio).toBe('hi');
+        }
+      });
+
+      appEmitter.emit('user.created', { name: 'Ada' });
+      appEmitter.emit('user.profile.updated', { bio: 'hi' });
+      appEmitter.emit('post.created', { title: 'x' });
+
+      expect(created).toHaveBeenCalledWith({ name: 'Ada' });
+      expect(all).toEqual(['created', 'profile.updated']);
+    });
+
+    test('local listeners should only run for events emitted through the scope', () => {
+      const users = appEmitter.scope('user');
+      const profiles = users.scope('profile');
+      const local = jest.fn(() => {});
+      const profileLocal = jest.fn(() => {});
+      users.on('*', local, { local: true });
+      profiles.on('updated', profileLocal, { local: true });
+
+      appEmitter.emit('user.created', { name: 'Ada' });
+      appEmitter.emit('user.profile.updated', { bio: 'a' });
+      expect(local).not.toHaveBeenCalled();
+      expect(profileLocal).not.toHaveBeenCalled();
+
+      users.emit('created', { name: 'Ada' });
+      users.emit('profile.updated', { bio: 'b' });
+      profiles.emit('updated', { bio: 'c' });
+
+      expect(local.mock.calls).toEqual([
+        ['created', { name: 'Ada' }],
+        ['profile.updated', { bio: 'b' }],
+        ['profile.updated', { bio: 'c' }],
+      ]);
+      expect(profileLocal.mock.calls).toEqual([[{ bio: 'c' }]]);
+    });
+
+    test('once and off through a scope', () => {
+      const users = appEmitter.scope('user');
+      const onceHandler = jest.fn(() => {});
+      const handler = jest.fn(() => {});
+      users.once('deleted', onceHandler);
+      users.on('deleted', handler);
+      users.on('deleted', handler);
+
+      users.emit('deleted', { id: 1 });
+      users.off('deleted', handler);
+      users.emit('deleted', { id: 2 });
+
+      expect(onceHandler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(appEmitter.listenerCount()).toBe(0);
+    });
+
+    test('dispose should remove every listener registered through the scope and its nested scopes', () => {
+      const parentListener = jest.fn(() => {});
+      appEmitter.on('user.created', parentListener);
+      const users = appEmitter.scope('user');
+      users.on('created', () => {});
+      users.on('*', () => {}, { local: true });
+      users.scope('profile').on('updated', () => {});
+      expect(appEmitter.listenerCount()).toBe(4);
+
+      users.dispose();
+
+      expect(appEmitter.listenerCount()).toBe(1);
+      expect(appEmitter.listeners('user.created')).toEqual([parentListener]);
+      expect(() => users.on('created', () => {})).toThrow(ScopeDisposedError);
+      expect(() => users.emit('created', { name: 'Ada' })).toThrow(ScopeDisposedError);
+    });
+
+    test('emitAsync through a scope should include local listeners and report the relative name', async () => {
+      const users = appEmitter.scope('user');
+      const local = jest.fn(async () => {});
+      users.on('created', local, { local: true });
+
+      const result = await users.emitAsync('created', { name: 'Ada' }, {});
+
+      expect(local).toHaveBeenCalledWith({ name: 'Ada' });
+      expect(result.eventName).toBe('created');
+      expect(result.outcomes).toHaveLength(1);
+      await expect(appEmitter.emitAsync('user.created', { name: 'Ada' }, {})).resolves.toMatchObject({ outcomes: [] });
+    });
+
+    test('scope should validate prefixes and names', () => {
+      expect(() => appEmitter.scope('')).toThrow(InvalidEventNameError);
+      expect(() => appEmitter.scope('user.*')).toThrow(InvalidEventNameError);
+      const users = appEmitter.scope('user');
+      expect(() => (users as any).on('', () => {})).toThrow(InvalidEventNameError);
+      expect(() => (users as any).emit('*', {})).toThrow(InvalidEventNameError);
+    });
+  });
+
+  describe('Piping', () => {
+    interface RoomEvents {
+      'room.message': { text: string };
+      'room.joined': { userId: string };
+      tick: number;
+    }
+    interface LobbyEvents {
+      'room.message': { text: string };
+      'room.joined': { userId: string };
+      tick: number;
+      announcement: { body: string };
+    }
+
+    test('pipe should forward every event unchanged by default and stop on request', () => {
+      const room = new TypeSafeEmitter<RoomEvents>();
+      const lobby = new TypeSafeEmitter<LobbyEvents>();
+      const received: unknown[] = [];
+      lobby.on('*', (eventName, data) => {
+        received.push([eventName, data]);
+      });
+
+      const stop = room.pipe(lobby);
+      room.emit('room.message', { text: 'hi' });
+      room.emit('tick', 1);
+      stop();
+      room.emit('tick', 2);
+
+      expect(received).toEqual([['room.message', { text: 'hi' }], ['tick', 1]]);
+      expect(room.listenerCount()).toBe(0);
+    });
+
+    test('pipe should forward only the selected events and pattern', () => {
+      const room = new TypeSafeEmitter<RoomEvents>();
+      const lobby = new TypeSafeEmitter<LobbyEvents>();
+      const received: string[] = [];
+      lobby.on('*', (eventName, data) => {
+        received.push(eventName);
+      });
+
+      room.pipe(lobby, { events: ['tick'] });
+      room.pipe(lobby, { pattern: 'room.*', events: ['room.joined'] });
+      room.emit('room.message', { text: 'hi' });
+      room.emit('room.joined', { userId: 'u1' });
+      room.emit('tick', 1);
+
+      expect(received).toEqual(['room.message', 'room.joined', 'tick']);
+    });
+
+    test('map should rename and transform events, or drop them', () => {
+      const room = new TypeSafeEmitter<RoomEvents>();
+      const lobby = new TypeSafeEmitter<LobbyEvents>();
+      const announcements = jest.fn(() => {});
+      lobby.on('announcement', announcements);
+
+      room.pipe(lobby, {
+        pattern: 'room.*',
+        map: (eventName, data) => {
+          if (eventName === 'room.joined') {
+            return ['announcement', { body: `${data.userId} joined` }];
+          }
+          return undefined;
+        },
+      });
+      room.emit('room.joined', { userId: 'u1' });
+      room.emit('room.message', { text: 'dropped' });
+
+      expect(announcements).toHaveBeenCalledTimes(1);
+      expect(announcements).toHaveBeenCalledWith({ body: 'u1 joined' });
+    });
+
+    test('pipe should be typed against the target event map', () => {
+      const room = new TypeSafeEmitter<RoomEvents>();
+      const lobby = new TypeSafeEmitter<LobbyEvents>();
+
+      // @ts-expect-error 'announcement' does not exist in RoomEvents, so a map is required
+      lobby.pipe(room);
+      // @ts-expect-error the mapped payload does not match the target's 'tick' event
+      room.pipe(lobby, { events: ['room.message'], map: (eventName, data) => ['tick', data.text] });
+      lobby.pipe(room, { events: ['tick', 'room.message'] });
+    });
+
+    test('bidirectional bridges should not loop', () => {
+      const a = new TypeSafeEmitter<RoomEvents>();
+      const b = new TypeSafeEmitter<RoomEvents>();
+      const onA = jest.fn(() => {});
+      const onB = jest.fn(() => {});
+      a.on('tick', onA);
+      b.on('tick', onB);
+      a.pipe(b);
+      b.pipe(a);
+
+      a.emit('tick', 1);
+      b.emit('tick', 2);
+
+      expect(onA.mock.calls).toEqual([[1], [2]]);
+      expect(onB.mock.calls).toEqual([[1], [2]]);
+    });
+
+    test('events emitted by handlers of forwarded events should be forwarded', () => {
+      const a = new TypeSafeEmitter<RoomEvents>();
+      const b = new TypeSafeEmitter<RoomEvents>();
+      const messages = jest.fn(() => {});
+      b.on('room.message', messages);
+      b.on('tick', tick => a.emit('room.message', { text: `pong ${tick}` }));
+      a.pipe(b);
+
+      a.emit('tick', 1);
+      expect(messages.mock.calls).toEqual([[{ text: 'pong 1' }]]);
+
+      // In a bidirectional bridge, the reply still reaches each emitter once.
+      const onA = jest.fn(() => {});
+      a.on('room.message', onA);
+      b.pipe(a);
+      a.emit('tick', 2);
+      expect(messages).toHaveBeenLastCalledWith({ text: 'pong 2' });
+      expect(messages).toHaveBeenCalledTimes(2);
+      expect(onA.mock.calls).toEqual([[{ text: 'pong 2' }]]);
+    });
+
+    test('aborting the signal should stop forwarding', () => {
+      const room = new TypeSafeEmitter<RoomEvents>();
+      const lobby = new TypeSafeEmitter<LobbyEvents>();
+      const handler = jest.fn(() => {});
+      lobby.on('tick', handler);
+      const controller = new AbortController();
+
+      room.pipe(lobby, { signal: controller.signal });
+      room.emit('tick', 1);
+      controller.abort();
+      room.emit('tick', 2);
+
+      expect(handler.mock.calls).toEqual([[1]]);
+    });
+  });
+
+  describe('Sticky Events', () => {
+    interface PresenceEvents {
+      'presence.alice': string;
+      'presence.bob': string;
+      'game.state': { round: number };
+      chat: string;
+    }
+    let sticky: TypeSafeEmitter<PresenceEvents>;
+
+    beforeEach(() => {
+      sticky = new TypeSafeEmitter<PresenceEvents>({
+        sticky: { 'presence.alice': true, 'presence.bob': true, 'game.state': 3 },
+      });
+    });
+
+    test('should keep the last N payloads of sticky events only', () => {
+      sticky.emit('game.state', { round: 1 });
+      sticky.emit('game.state', { round: 2 });
+      sticky.emit('game.state', { round: 3 });
+      sticky.emit('game.state', { round: 4 });
+      sticky.emit('chat', 'hello');
+
+      expect(sticky.getLast('game.state')).toEqual({ round: 4 });
+      expect(sticky.getLast('game.state', 2)).toEqual([{ round: 3 }, { round: 4 }]);
+      expect(sticky.getLast('game.state', 10)).toEqual([{ round: 2 }, { round: 3 }, { round: 4 }]);
+      expect(sticky.getLast('chat')).toBeUndefined();
+      expect(sticky.getLast('chat', 1)).toEqual([]);
+    });
+
+    test('on with replay should deliver cached payloads right away, then live ones', () => {
+      sticky.emit('game.state', { round: 1 });
+      sticky.emit('game.state', { round: 2 });
+
+      const all = jest.fn(() => {});
+      const latest = jest.fn(() => {});
+      const none = jest.fn(() => {});
+      sticky.on('game.state', all, { replay: true });
+      sticky.on('game.state', latest, { replay: 1 });
+      sticky.on('game.state', none);
+      expect(all.mock.calls).toEqual([[{ round: 1 }], [{ round: 2 }]]);
+      expect(latest.mock.calls).toEqual([[{ round: 2 }]]);
+      expect(none).not.toHaveBeenCalled();
+
+      sticky.emit('game.state', { round: 3 });
+      expect(all).toHaveBeenLastCalledWith({ round: 3 });
+      expect(none).toHaveBeenCalledTimes(1);
+    });
+
+    test('once with replay should be satisfied by a cached payload', () => {
+      sticky.emit('presence.alice', 'online');
+      const handler = jest.fn(() => {});
+      sticky.once('presence.alice', handler, { replay: true });
+      sticky.emit('presence.alice', 'away');
+      expect(handler.mock.calls).toEqual([['online']]);
+      expect(sticky.listenerCount('presence.alice')).toBe(0);
+    });
+
+    test('once with replay should receive the newest cached payload', () => {
+      sticky.emit('game.state', { round: 1 });
+      sticky.emit('game.state', { round: 2 });
+      sticky.emit('presence.bob', 'online');
+      const current = jest.fn(() => {});
+      const latestPresence = jest.fn(() => {});
+      const scoped = jest.fn(() => {});
+      sticky.once('game.state', current, { replay: true });
+      sticky.once('presence.*', latestPresence, { replay: true });
+      sticky.emit('presence.alice', 'away');
+      sticky.scope('game').once('state', scoped, { replay: 2 });
+
+      expect(current.mock.calls).toEqual([[{ round: 2 }]]);
+      expect(latestPresence.mock.calls).toEqual([['presence.bob', 'online']]);
+      expect(scoped.mock.calls).toEqual([[{ round: 2 }]]);
+      expect(sticky.listenerCount('game.state')).toBe(0);
+    });
+
+    test('wildcard replay should deliver every matching cached payload in emission order', () => {
+      sticky.emit('presence.bob', 'online');
+      sticky.emit('game.state', { round: 1 });
+      sticky.emit('presence.alice', 'online');
+      sticky.emit('presence.bob', 'away');
+
+      const presence: unknown[] = [];
+      sticky.on('presence.*', (eventName, data) => {
+        presence.push([eventName, data]);
+      }, { replay: true });
+      expect(presence).toEqual([['presence.alice', 'online'], ['presence.bob', 'away']]);
+
+      const everything: unknown[] = [];
+      sticky.on('*', (eventName, data) => {
+        everything.push([eventName, data]);
+      }, { replay: true });
+      expect(everything).toEqual([['game.state', { round: 1 }], ['presence.alice', 'online'], ['presence.bob', 'away']]);
+    });
+
+    test('should cache the payload after validation and middleware, and nothing for stopped events', async () => {
+      sticky.use(['game.state'], (ctx, next) => {
+        if (ctx.data.round < 0) {
+          return;
+        }
+        ctx.data = { round: ctx.data.round * 10 };
+        next();
+      });
+      sticky.emit('game.state', { round: 1 });
+      sticky.emit('game.state', { round: -1 });
+      await sticky.emitAsync('game.state', { round: 2 });
+      expect(sticky.getLast('game.state', 3)).toEqual([{ round: 10 }, { round: 20 }]);
+    });
+
+    test('clearSticky should forget cached payloads but keep the event sticky', () => {
+      sticky.emit('presence.alice', 'online');
+      sticky.emit('presence.bob', 'online');
+      sticky.clearSticky('presence.alice');
+      expect(sticky.getLast('presence.alice')).toBeUndefined();
+      expect(sticky.getLast('presence.bob')).toBe('online');
+
+      sticky.clearSticky();
+      expect(sticky.getLast('presence.bob')).toBeUndefined();
+      sticky.emit('presence.alice', 'back');
+      expect(sticky.getLast('presence.alice')).toBe('back');
+    });
+
+    test('a handler throwing during replay should be removed and the error thrown', () => {
+      sticky.emit('presence.alice', 'online');
+      const failing = () => {
+        throw new Error('boom');
+      };
+      expect(() => sticky.on('presence.alice', failing, { replay: true })).toThrow(HandlerError);
+      expect(sticky.listenerCount('presence.alice')).toBe(0);
+
+      const reported = jest.fn(() => {});
+      const lenient = new TypeSafeEmitter<PresenceEvents>({ sticky: { 'presence.alice': true }, onHandlerError: reported });
+      lenient.emit('presence.alice', 'online');
+      lenient.on('presence.alice', failing, { replay: true });
+      expect(reported).toHaveBeenCalledTimes(1);
+      expect(lenient.listenerCount('presence.alice')).toBe(1);
+    });
+
+    test('should reject invalid sticky counts', () => {
+      expect(() => new TypeSafeEmitter<PresenceEvents>({ sticky: { chat: 0 } })).toThrow(RangeError);
+      expect(() => new TypeSafeEmitter<PresenceEvents>({ sticky: { chat: 1.5 } })).toThrow(RangeError);
+    });
+
+    test('local scope listeners should only replay payloads emitted through their scope', () => {
+      const presence = sticky.scope('presence');
+      presence.emit('alice', 'online');
+      sticky.emit('presence.bob', 'online');
+
+      const local = jest.fn(() => {});
+      presence.on('*', local, { local: true, replay: true });
+      expect(local.mock.calls).toEqual([['alice', 'online']]);
+    });
+  });
+
+  describe('Event History', () => {
+    test('should record delivered events with their handler outcomes', () => {
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: true, aggregateErrors: true });
+      const ok = jest.fn(() => {});
+      const failing = () => {
+        throw new Error('boom');
+      };
+      recorded.on('userLeft', ok);
+      recorded.on('userLeft', failing);
+      recorded.emit('messageReceived', { id: 1, text: 'hi' });
+      expect(() => recorded.emit('userLeft', 'u1')).toThrow(AggregateError);
+
+      const entries = recorded.history();
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ sequence: 0, eventName: 'messageReceived', data: { id: 1, text: 'hi' }, handlerCount: 0, handlers: [] });
+      expect(entries[1]).toMatchObject({ sequence: 1, eventName: 'userLeft', data: 'u1', handlerCount: 2 });
+      expect(entries[1].handlers.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+      expect(entries[1].handlers[0].handler).toBe(ok);
+      expect((entries[1].handlers[1].error as Error).message).toBe('boom');
+      expect(typeof entries[1].timestamp).toBe('number');
+    });
+
+    test('should mark handlers after a failure as skipped and track async handlers', async () => {
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: true, onHandlerError: () => {} });
+      let release!: () => void;
+      recorded.on('userLeft', () => new Promise<void>(resolve => { release = resolve; }));
+      recorded.emit('userLeft', 'u1');
+      expect(recorded.history()[0].handlers[0].status).toBe('pending');
+      release();
+      await Promise.resolve();
+      expect(recorded.history()[0].handlers[0].status).toBe('fulfilled');
+
+      const strict = new TypeSafeEmitter<MyEvents>({ history: true });
+      strict.on('userLeft', () => {
+        throw new Error('first');
+      });
+      strict.on('userLeft', () => {});
+      expect(() => strict.emit('userLeft', 'u1')).toThrow(HandlerError);
+      const entry = strict.history()[0];
+      expect(entry.handlers.map(outcome => outcome.status)).toEqual(['rejected', 'skipped']);
+      expect(entry.handlerCount).toBe(1);
+    });
+
+    test('should record emitAsync outcomes', async () => {
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: true });
+      recorded.on('userLeft', async () => {});
+      recorded.on('userLeft', async () => {
+        throw new Error('async');
+      });
+      await recorded.emitAsync('userLeft', 'u1', { mode: 'allSettled' });
+      await expect(recorded.emitAsync('userLeft', 'u2', { mode: 'serial' })).rejects.toThrow(HandlerError);
+
+      const [settled, serial] = recorded.history();
+      expect(settled.handlers.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+      expect(serial.handlers.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+    });
+
+    test('should keep only the most recent events', () => {
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: { size: 3 } });
+      for (let id = 1; id <= 5; id++) {
+        recorded.emit('messageReceived', { id, text: `m${id}` });
+      }
+      expect(recorded.history().map(entry => entry.sequence)).toEqual([2, 3, 4]);
+      recorded.clearHistory();
+      expect(recorded.history()).toEqual([]);
+      recorded.emit('userLeft', 'u1');
+      expect(recorded.history()).toHaveLength(1);
+      expect(() => new TypeSafeEmitter<MyEvents>({ history: { size: 0 } })).toThrow(RangeError);
+    });
+
+    test('history should filter by event, pattern, time and limit', () => {
+      interface ChatEvents {
+        'chat.message': string;
+        'chat.typing': string;
+        'user.joined': string;
+      }
+      const now = jest.spyOn(Date, 'now');
+      const recorded = new TypeSafeEmitter<ChatEvents>({ history: true });
+      now.mockReturnValue(1000);
+      recorded.emit('user.joined', 'ada');
+      recorded.emit('chat.message', 'hello');
+      now.mockReturnValue(2000);
+      recorded.emit('chat.typing', 'ada');
+      recorded.emit('chat.message', 'bye');
+      now.mockRestore();
+
+      expect(recorded.history({ event: 'chat.message' }).map(entry => entry.data)).toEqual(['hello', 'bye']);
+      expect(recorded.history({ pattern: 'chat.*' }).map(entry => entry.data)).toEqual(['hello', 'ada', 'bye']);
+      expect(recorded.history({ since: 2000 }).map(entry => entry.eventName)).toEqual(['chat.typing', 'chat.message']);
+      expect(recorded.history({ since: new Date(1500), event: 'chat.message' })).toHaveLength(1);
+      expect(recorded.history({ limit: 2 }).map(entry => entry.sequence)).toEqual([2, 3]);
+      expect(() => recorded.history({ pattern: 'chat..x' })).toThrow(InvalidEventNameError);
+    });
+
+    test('should store payloads by reference, as clones or redacted', () => {
+      interface LoginEvents {
+        login: { user: string; password: string };
+      }
+      const payload = () => ({ user: 'ada', password: 'secret' });
+
+      const byReference = new TypeSafeEmitter<LoginEvents>({ history: true });
+      const sent = payload();
+      byReference.emit('login', sent);
+      sent.user = 'changed';
+      expect(byReference.history()[0].data.user).toBe('changed');
+
+      const cloned = new TypeSafeEmitter<LoginEvents>({ history: { payload: 'clone' } });
+      const clonedPayload = payload();
+      cloned.emit('login', clonedPayload);
+      clonedPayload.user = 'changed';
+      expect(cloned.history()[0].data.user).toBe('ada');
+
+      const redacted = new TypeSafeEmitter<LoginEvents>({
+        history: { payload: (eventName, data) => ({ ...(data as object), password: '***' }) },
+      });
+      const handler = jest.fn(() => {});
+      redacted.on('login', handler);
+      redacted.emit('login', payload());
+      expect(handler).toHaveBeenCalledWith({ user: 'ada', password: 'secret' });
+      expect(redacted.history()[0].data).toEqual({ user: 'ada', password: '***' });
+    });
+
+    test('exportHistory should produce JSON with serialized handlers and errors', () => {
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: true, onHandlerError: () => {} });
+      recorded.on('userLeft', function announce() {
+        throw new TypeError('bad');
+      });
+      recorded.emit('userLeft', 'u1');
+
+      const exported = JSON.parse(recorded.exportHistory({ event: 'userLeft' }));
+      expect(exported).toEqual([{
+        sequence: 0,
+        eventName: 'userLeft',
+        data: 'u1',
+        timestamp: expect.any(String),
+        handlerCount: 1,
+        handlers: [{ handler: 'announce', status: 'rejected', error: { name: 'TypeError', message: 'bad' }, duration: expect.any(Number) }],
+      }]);
+    });
+
+    test('redispatch should emit a recorded slice into another emitter in order', () => {
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: true });
+      recorded.emit('userJoined', { userId: 'u1', username: 'ada' });
+      recorded.emit('messageReceived', { id: 1, text: 'hi' });
+      recorded.emit('userLeft', 'u1');
+
+      const fresh = new TypeSafeEmitter<MyEvents>();
+      const received: unknown[] = [];
+      fresh.on('*', (eventName, data) => {
+        received.push([eventName, data]);
+      });
+      redispatch(recorded.history({ since: 0, limit: 2 }), fresh);
+      expect(received).toEqual([['messageReceived', { id: 1, text: 'hi' }], ['userLeft', 'u1']]);
+    });
+
+    test('history should be empty when not enabled, and skip events stopped by middleware', () => {
+      emitter.emit('userLeft', 'u1');
+      expect(emitter.history()).toEqual([]);
+
+      const recorded = new TypeSafeEmitter<MyEvents>({ history: true });
+      recorded.use(['userLeft'], () => {});
+      recorded.emit('userLeft', 'u1');
+      recorded.emit('messageReceived', { id: 1, text: 'hi' });
+      expect(recorded.history().map(entry => entry.eventName)).toEqual(['messageReceived']);
+    });
+  });
+
+  describe('Request/Response', () => {
+    interface FormEvents {
+      validateField: { fieldName: string; value: string };
+      lookupUser: string;
+      formReset: { timestamp: number };
+    }
+    interface FormResponses {
+      validateField: { isValid: boolean; errors: string[] };
+      lookupUser: { name: string } | null;
+    }
+    let form: TypeSafeEmitter<FormEvents, FormResponses>;
+
+    beforeEach(() => {
+      form = new TypeSafeEmitter<FormEvents, FormResponses>();
+    });
+
+    test('request should resolve with the response of the registered responder', async () => {
+      form.handle('validateField', async ({ fieldName, value }) => ({
+        isValid: value.includes('@'),
+        errors: value.includes('@') ? [] : [`${fieldName} is invalid`],
+      }));
+      form.handle('lookupUser', id => (id === 'u1' ? { name: 'Ada' } : null));
+
+      await expect(form.request('validateField', { fieldName: 'email', value: 'nope' }))
+        .resolves.toEqual({ isValid: false, errors: ['email is invalid'] });
+      await expect(form.request('lookupUser', 'u1')).resolves.toEqual({ name: 'Ada' });
+      await expect(form.request('lookupUser', 'u2')).resolves.toBeNull();
+    });
+
+    test('request and handle should be typed against the response map', () => {
+      const typeChecks = () => {
+        // @ts-expect-error formReset has no response type
+        form.handle('formReset', () => undefined);
+        // @ts-expect-error formReset has no response type
+        void form.request('formReset', { timestamp: 1 });
+        // @ts-expect-error the payload must match the event map
+        void form.request('lookupUser', 42);
+        // @ts-expect-error the response must match the response map
+        form.handle('lookupUser', () => 'Ada');
+        const response: Promise<{ isValid: boolean; errors: string[] }> = form.request('validateField', { fieldName: 'a', value: 'b' });
+        void response;
+        // @ts-expect-error emitters without a response map have no request events
+        void emitter.request('userLeft', 'u1');
+      };
+      expect(typeChecks).toBeInstanceOf(Function);
+    });
+
+    test('request should reject with NoResponderError when nothing handles the event', async () => {
+      await expect(form.request('lookupUser', 'u1')).rejects.toThrow(NoResponderError);
+
+      const unregister = form.handle('lookupUser', () => null);
+      unregister();
+      await expect(form.request('lookupUser', 'u1')).rejects.toThrow('No responder for request "lookupUser"');
+    });
+
+    test('handle should reject a second responder until the first is removed', () => {
+      const unregister = form.handle('lookupUser', () => null);
+      expect(() => form.handle('lookupUser', () => null)).toThrow(DuplicateResponderError);
+      unregister();
+      expect(() => form.handle('lookupUser', () => null)).not.toThrow();
+      // A stale unregister function does not remove the new responder.
+      unregister();
+      expect(() => form.handle('lookupUser', () => null)).toThrow(DuplicateResponderError);
+    });
+
+    test('request should wrap responder errors in HandlerError', async () => {
+      const failure = new Error('database down');
+      form.handle('lookupUser', async () => {
+        throw failure;
+      });
+      const error = await form.request('lookupUser', 'u1').catch(err => err);
+      expect(error).toBeInstanceOf(HandlerError);
+      expect(error.cause).toBe(failure);
+    });
+
+    test('request should time out and abort the responder signal', async () => {
+      let responderSignal: AbortSignal | undefined;
+      form.handle('lookupUser', (id, signal) => {
+        responderSignal = signal;
+        return new Promise(() => {});
+      });
+      const error = await form.request('lookupUser', 'u1', { timeout: 10 }).catch(err => err);
+      expect(error).toBeInstanceOf(RequestTimeoutError);
+      expect(error.timeout).toBe(10);
+      expect(error.message).toBe('Request "lookupUser" timed out after 10ms');
+      expect(responderSignal?.aborted).toBe(true);
+    });
+
+    test('request should reject with AbortError when its signal is aborted', async () => {
+      form.handle('lookupUser', () => new Promise(() => {}));
+      const controller = new AbortController();
+      const pending = form.request('lookupUser', 'u1', { signal: controller.signal });
+      controller.abort('navigated away');
+      await expect(pending).rejects.toThrow(AbortError);
+      await expect(form.request('lookupUser', 'u1', { signal: controller.signal })).rejects.toMatchObject({ reason: 'navigated away' });
+    });
+
+    test('request should validate the payload and not reach listeners', async () => {
+      const validated = new TypeSafeEmitter<FormEvents, FormResponses>({
+        validators: { lookupUser: (data: unknown): data is string => typeof data === 'string' && data !== '' },
+      });
+      const listener = jest.fn(() => {});
+      validated.on('lookupUser', listener);
+      validated.handle('lookupUser', () => null);
+      await expect(validated.request('lookupUser', '')).rejects.toThrow(InvalidPayloadError);
+      await validated.request('lookupUser', 'u1');
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Timing Operators', () => {
+    interface InputEvents {
+      'input.typing': string;
+      'input.move': { x: number };
+      tick: number;
+    }
+
+    /** A clock whose timers only fire when the test advances it. */
+    class ManualClock implements Clock {
+      private time = 0;
+      private nextId = 0;
+      private timers = new Map<number, { at: number; callback: () => void }>();
+
+      setTimeout(callback: () => void, ms: number): unknown {
+        const id = this.nextId++;
+        this.timers.set(id, { at: this.time + ms, callback });
+        return id;
+      }
+
+      clearTimeout(timer: unknown): void {
+        this.timers.delete(timer as number);
+      }
+
+      get pending(): number {
+        return this.timers.size;
+      }
+
+      advance(ms: number): void {
+        const target = this.time + ms;
+        for (;;) {
+          const due = Array.from(this.timers.entries())
+            .filter(([, timer]) => timer.at <= target)
+            .sort(([a, x], [b, y]) => x.at - y.at || a - b)[0];
+          if (!due) {
+            break;
+          }
+          this.timers.delete(due[0]);
+          this.time = due[1].at;
+          due[1].callback();
+        }
+        this.time = target;
+      }
+    }
+
+    let clock: ManualClock;
+    let input: TypeSafeEmitter<InputEvents>;
+
+    beforeEach(() => {
+      clock = new ManualClock();
+      input = new TypeSafeEmitter<InputEvents>({ clock });
+    });
+
+    test('debounce should deliver the latest payload after a quiet period', () => {
+      const handler = jest.fn(() => {});
+      input.on('input.typing', handler, { debounce: 100 });
+      input.emit('input.typing', 'h');
+      clock.advance(50);
+      input.emit('input.typing', 'he');
+      clock.advance(99);
+      expect(handler).not.toHaveBeenCalled();
+      clock.advance(1);
+      expect(handler.mock.calls).toEqual([['he']]);
+    });
+
+    test('throttle should deliver leading and trailing payloads at most once per window', () => {
+      const both = jest.fn(() => {});
+      const leadingOnly = jest.fn(() => {});
+      const trailingOnly = jest.fn(() => {});
+      input.on('tick', both, { throttle: { ms: 100 } });
+      input.on('tick', leadingOnly, { throttle: { ms: 100, trailing: false } });
+      input.on('tick', trailingOnly, { throttle: { ms: 100, leading: false } });
+
+      input.emit('tick', 1);
+      input.emit('tick', 2);
+      input.emit('tick', 3);
+      expect(both.mock.calls).toEqual([[1]]);
+      expect(leadingOnly.mock.calls).toEqual([[1]]);
+      expect(trailingOnly).not.toHaveBeenCalled();
+
+      clock.advance(100);
+      expect(both.mock.calls).toEqual([[1], [3]]);
+      expect(trailingOnly.mock.calls).toEqual([[3]]);
+
+      // The trailing delivery opened a new window.
+      input.emit('tick', 4);
+      expect(both.mock.calls).toEqual([[1], [3]]);
+      clock.advance(100);
+      expect(both.mock.calls).toEqual([[1], [3], [4]]);
+      expect(leadingOnly.mock.calls).toEqual([[1], [4]]);
+    });
+
+    test('sample should deliver the latest payload at the end of each active period', () => {
+      const handler = jest.fn(() => {});
+      input.on('tick', handler, { sample: 100 });
+      input.emit('tick', 1);
+      input.emit('tick', 2);
+      clock.advance(100);
+      clock.advance(500);
+      input.emit('tick', 3);
+      clock.advance(100);
+      expect(handler.mock.calls).toEqual([[2], [3]]);
+      expect(clock.pending).toBe(0);
+    });
+
+    test('bufferCount and bufferTime should deliver arrays of payloads', () => {
+      const byCount = jest.fn(() => {});
+      const byTime = jest.fn(() => {});
+      const byEither = jest.fn(() => {});
+      input.on('tick', byCount, { bufferCount: 2 });
+      input.on('tick', byTime, { bufferTime: 100 });
+      input.on('tick', byEither, { bufferCount: 3, bufferTime: 100 });
+
+      input.emit('tick', 1);
+      input.emit('tick', 2);
+      input.emit('tick', 3);
+      expect(byCount.mock.calls).toEqual([[[1, 2]]]);
+      expect(byEither.mock.calls).toEqual([[[1, 2, 3]]]);
+      expect(byTime).not.toHaveBeenCalled();
+
+      input.emit('tick', 4);
+      clock.advance(100);
+      expect(byTime.mock.calls).toEqual([[[1, 2, 3, 4]]]);
+      expect(byEither.mock.calls).toEqual([[[1, 2, 3]], [[4]]]);
+      expect(byCount.mock.calls).toEqual([[[1, 2]], [[3, 4]]]);
+    });
+
+    test('wildcard subscriptions should be timed per concrete event name', () => {
+      const debounced: unknown[] = [];
+      const buffered: unknown[] = [];
+      input.on('input.*', (eventName, data) => {
+        debounced.push([eventName, data]);
+      }, { debounce: 100 });
+      input.on('input.*', (eventName, data) => {
+        buffered.push([eventName, data]);
+      }, { bufferTime: 100 });
+
+      input.emit('input.typing', 'a');
+      input.emit('input.move', { x: 1 });
+      input.emit('input.typing', 'ab');
+      clock.advance(100);
+      // Typing was debounced again after the move, so its timer fires last.
+      expect(debounced).toEqual([['input.move', { x: 1 }], ['input.typing', 'ab']]);
+      expect(buffered).toEqual([['input.typing', ['a', 'ab']], ['input.move', [{ x: 1 }]]]);
+    });
+
+    test('removing the listener should cancel pending deliveries, or flush them', () => {
+      const cancelled = jest.fn(() => {});
+      const flushed = jest.fn(() => {});
+      const controller = new AbortController();
+      const stop = input.on('tick', cancelled, { debounce: 100 });
+      input.on('tick', flushed, { bufferCount: 10, flush: true, signal: controller.signal });
+
+      input.emit('tick', 1);
+      input.emit('tick', 2);
+      stop();
+      controller.abort();
+      expect(flushed.mock.calls).toEqual([[[1, 2]]]);
+      expect(clock.pending).toBe(0);
+      clock.advance(1000);
+      expect(cancelled).not.toHaveBeenCalled();
+
+      const cleared = jest.fn(() => {});
+      input.on('tick', cleared, { throttle: { ms: 100, leading: false }, flush: true });
+      input.emit('tick', 3);
+      input.clear();
+      expect(cleared.mock.calls).toEqual([[3]]);
+    });
+
+    test('off with the handler should remove a timed listener and cancel its timers', () => {
+      const handler = jest.fn(() => {});
+      input.on('tick', handler, { debounce: 100 });
+      input.emit('tick', 1);
+      input.off('tick', handler);
+
+      expect(input.listenerCount('tick')).toBe(0);
+      expect(clock.pending).toBe(0);
+      input.emit('tick', 2);
+      clock.advance(100);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    test('deliveries made during emit should pass the handler result to emit and emitAsync', async () => {
+      const onHandlerError = jest.fn(() => {});
+      const reporting = new TypeSafeEmitter<InputEvents>({ clock, onHandlerError });
+      const failure = new Error('render failed');
+      const throttled = jest.fn(async () => {
+        throw failure;
+      });
+      reporting.on('tick', throttled, { throttle: { ms: 100 } });
+      reporting.emit('tick', 1);
+      await Promise.resolve();
+      expect(onHandlerError).toHaveBeenCalledWith(
+        expect.objectContaining({ cause: failure }),
+        expect.objectContaining({ eventName: 'tick', handler: throttled })
+      );
+
+      const saved: number[][] = [];
+      input.on('tick', async (batch: number[]) => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        saved.push(batch);
+      }, { bufferCount: 1 });
+      await input.emitAsync('tick', 2);
+      expect(saved).toEqual([[2]]);
+    });
+
+    test('should type buffered handlers and reject conflicting options', () => {
+      const typeChecks = () => {
+        input.on('tick', (batch: number[]) => {
+          void batch;
+        }, { bufferCount: 2 });
+        // @ts-expect-error buffered handlers receive arrays
+        input.on('tick', (value: number) => {
+          void value;
+        }, { bufferCount: 2 });
+        // @ts-expect-error debounced handlers receive single payloads
+        input.on('tick', (batch: number[]) => {
+          void batch;
+        }, { debounce: 10 });
+      };
+      expect(typeChecks).toBeInstanceOf(Function);
+
+      const handler = () => {};
+      expect(() => input.on('tick', handler, { debounce: 10, sample: 10 })).toThrow(TypeError);
+      expect(() => input.on('tick', handler, { throttle: { ms: 10, leading: false, trailing: false } })).toThrow(TypeError);
+      expect(() => input.on('tick', handler, { debounce: -1 })).toThrow(RangeError);
+      expect(() => input.on('tick', () => {}, { bufferCount: 0 })).toThrow(RangeError);
+      expect(input.listenerCount('tick')).toBe(0);
+    });
+
+    test('errors of deferred deliveries should go to onHandlerError', () => {
+      const reported = jest.fn((error: HandlerError, context: { eventName: keyof InputEvents }) => {
+        void error;
+        void context;
+      });
+      const lenient = new TypeSafeEmitter<InputEvents>({ clock, onHandlerError: reported });
+      const failure = new Error('late');
+      lenient.on('tick', () => {
+        throw failure;
+      }, { debounce: 10 });
+      lenient.emit('tick', 1);
+      clock.advance(10);
+      expect(reported).toHaveBeenCalledTimes(1);
+      expect(reported.mock.calls[0][0].cause).toBe(failure);
+      expect(reported.mock.calls[0][1].eventName).toBe('tick');
+    });
+
+    test('should use the global timers by default', () => {
+      jest.useFakeTimers();
+      try {
+        const realTimers = new TypeSafeEmitter<InputEvents>();
+        const handler = jest.fn(() => {});
+        realTimers.on('tick', handler, { debounce: 50 });
+        realTimers.emit('tick', 1);
+        jest.advanceTimersByTime(50);
+        expect(handler).toHaveBeenCalledWith(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('Cross-Thread Transport', () => {
+    interface WorkerEvents {
+      job: { id: number; tags: Set<string>; createdAt: Date };
+      progress: number;
+      log: string;
+    }
+    let channel: MessageChannel;
+    let main: TypeSafeEmitter<WorkerEvents>;
+    let worker: TypeSafeEmitter<WorkerEvents>;
+    const closers: Array<() => void> = [];
+    // Messages posted to a port arrive in a later macrotask.
+    const delivered = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    beforeEach(() => {
+      channel = new MessageChannel();
+      closers.push(() => channel.port1.close(), () => channel.port2.close());
+      main = new TypeSafeEmitter<WorkerEvents>();
+      worker = new TypeSafeEmitter<WorkerEvents>();
+    });
+
+    afterEach(() => {
+      closers.splice(0).forEach(close => close());
+    });
+
+    test('should forward the selected events each way as structured clones', async () => {
+      connectPort(main, channel.port1, { send: ['job'], receive: ['progress'] });
+      connectPort(worker, channel.port2, { send: ['progress', 'log'], receive: ['job'] });
+      const jobHandler = jest.fn(() => {}) as jest.MockedFunction<(data: WorkerEvents['job']) => void>;
+      const progressHandler = jest.fn(() => {});
+      const logHandler = jest.fn(() => {});
+      worker.on('job', jobHandler);
+      main.on('progress', progressHandler);
+      main.on('log', logHandler);
+
+      const job = { id: 1, tags: new Set(['urgent']), createdAt: new Date(0) };
+      main.emit('job', job);
+      worker.emit('progress', 0.5);
+      worker.emit('log', 'not received by main');
+      await delivered();
+
+      // The clone comes from another realm, so compare its contents rather than its classes.
+      const received = jobHandler.mock.calls[0][0];
+      expect(received).not.toBe(job);
+      expect(received.id).toBe(1);
+      expect([...received.tags]).toEqual(['urgent']);
+      expect(received.createdAt.getTime()).toBe(0);
+      expect(progressHandler).toHaveBeenCalledWith(0.5);
+      expect(logHandler).not.toHaveBeenCalled();
+    });
+
+    test('should not send received events back to the endpoint', async () => {
+      connectPort(main, channel.port1, { send: ['*'], receive: ['*'] });
+      connectPort(worker, channel.port2, { send: ['*'], receive: ['*'] });
+      const mainHandler = jest.fn(() => {});
+      const workerHandler = jest.fn(() => {});
+      main.on('log', mainHandler);
+      worker.on('log', workerHandler);
+
+      main.emit('log', 'hello');
+      await delivered();
+      await delivered();
+
+      expect(mainHandler).toHaveBeenCalledTimes(1);
+      expect(workerHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('emitAsync should wait for acknowledged remote handlers', async () => {
+      connectPort(main, channel.port1, { send: ['progress', 'log'], ack: true });
+      connectPort(worker, channel.port2, { receive: ['progress', 'log'] });
+      const seen: number[] = [];
+      worker.on('progress', async value => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        seen.push(value);
+      });
+      worker.on('log', () => {
+        throw new Error('disk full');
+      });
+
+      await main.emitAsync('progress', 1);
+      expect(seen).toEqual([1]);
+
+      const error = await main.emitAsync('log', 'x').catch(err => err);
+      expect(error).toBeInstanceOf(HandlerError);
+      expect(error.cause).toBeInstanceOf(RemoteHandlerError);
+      expect(error.cause.message).toBe('Remote handler for event "log" failed: disk full');
+      expect(error.cause.remoteName).toBe('Error');
+    });
+
+    test('acknowledgements should time out when nobody answers', async () => {
+      connectPort(main, channel.port1, { send: ['log'], ack: true, ackTimeout: 20 });
+      channel.port2.start();
+
+      const error = await main.emitAsync('log', 'x').catch(err => err);
+      expect(error.cause).toBeInstanceOf(EmitTimeoutError);
+    });
+
+    test('close should stop sending and receiving', async () => {
+      const transport = connectPort(main, channel.port1, { send: ['log'], receive: ['progress'] });
+      connectPort(worker, channel.port2, { send: ['progress'], receive: ['log'] });
+      const logHandler = jest.fn(() => {});
+      const progressHandler = jest.fn(() => {});
+      worker.on('log', logHandler);
+      main.on('progress', progressHandler);
+
+      transport.close();
+      main.emit('log', 'x');
+      worker.emit('progress', 1);
+      await delivered();
+
+      expect(logHandler).not.toHaveBeenCalled();
+      expect(progressHandler).not.toHaveBeenCalled();
+      expect(main.listenerCount('*')).toBe(0);
+    });
+
+    test('close should fail acknowledgements still awaited with ConnectionClosedError', async () => {
+      const transport = connectPort(main, channel.port1, { send: ['log'], ack: true });
+      channel.port2.start();
+
+      const rejection = main.emitAsync('log', 'x').catch(err => err);
+      transport.close();
+
+      const error = await rejection;
+      expect(error).toBeInstanceOf(HandlerError);
+      expect(error.cause).toBeInstanceOf(ConnectionClosedError);
+      expect(error.cause.eventName).toBe('log');
+    });
+
+    test('should work over a BroadcastChannel with several peers', async () => {
+      const channels = [new BroadcastChannel('jobs'), new BroadcastChannel('jobs'), new BroadcastChannel('jobs')];
+      closers.push(...channels.map(peer => () => peer.close()));
+      const [producer, ...consumers] = channels.map(() => new TypeSafeEmitter<WorkerEvents>());
+      connectPort(producer, channels[0], { send: ['log'], ack: true });
+      const handlers = consumers.map((consumer, index) => {
+        connectPort(consumer, channels[index + 1], { receive: ['log'] });
+        const handler = jest.fn(() => {});
+        consumer.on('log', handler);
+        return handler;
+      });
+
+      await producer.emitAsync('log', 'shipped');
+
+      // The first acknowledgement resolves the emit; wait for the other peer too.
+      await delivered();
+      handlers.forEach(handler => expect(handler).toHaveBeenCalledWith('shipped'));
+    });
+  });
+
+  describe('Socket Transport', () => {
+    interface DaemonEvents {
+      'build.started': { target: string };
+      'build.finished': { target: string; ok: boolean };
+      'log.line': string;
+      shutdown: undefined;
+    }
+    let dir: string;
+    let path: string;
+    let daemon: TypeSafeEmitter<DaemonEvents>;
+    const cleanups: Array<() => Promise<void> | void> = [];
+    const until = async (check: () => boolean) => {
+      for (let polls = 0; !check(); polls++) {
+        if (polls === 400) {
+          throw new Error('Condition not met within 2s');
+        }
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    };
+    const client = (options: Omit<Parameters<typeof connectSocket<DaemonEvents>>[1], 'path'>) => {
+      const cli = new TypeSafeEmitter<DaemonEvents>();
+      const connection = connectSocket(cli, { path, ...options });
+      cleanups.push(() => connection.close());
+      return { cli, connection };
+    };
+    const serve = async (options: Omit<Parameters<typeof serveSocket<DaemonEvents>>[1], 'path'> = {}) => {
+      const server = await serveSocket(daemon, { path, ...options });
+      cleanups.push(() => server.close());
+      return server;
+    };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'typesafe-emitter-'));
+      path = join(dir, 'daemon.sock');
+      daemon = new TypeSafeEmitter<DaemonEvents>();
+    });
+
+    afterEach(async () => {
+      for (const cleanup of cleanups.splice(0).reverse()) {
+        await cleanup();
+      }
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should send each client the events it subscribed to and receive its events', async () => {
+      const server = await serve();
+      const builds = client({ receive: ['build.*'], send: ['log.line'] });
+      const logs = client({ receive: ['log.line'] });
+      await Promise.all([builds.connection.ready(), logs.connection.ready()]);
+      expect(server.connections).toBe(2);
+      const buildHandler = jest.fn(() => {});
+      const ownLogHandler = jest.fn(() => {});
+      const otherLogHandler = jest.fn(() => {});
+      const daemonLogHandler = jest.fn(() => {});
+      builds.cli.on('build.*', buildHandler);
+      builds.cli.on('log.line', ownLogHandler);
+      logs.cli.on('log.line', otherLogHandler);
+      daemon.on('log.line', daemonLogHandler);
+
+      daemon.emit('build.started', { target: 'app' });
+      builds.cli.emit('log.line', 'compiling');
+      await until(() => buildHandler.mock.calls.length === 1 && otherLogHandler.mock.calls.length === 1);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(buildHandler).toHaveBeenCalledWith('build.started', { target: 'app' });
+      expect(daemonLogHandler).toHaveBeenCalledWith('compiling');
+      // Reaches the other client, but is not sent back to the one it came from.
+      expect(otherLogHandler).toHaveBeenCalledWith('compiling');
+      expect(ownLogHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('subscribe should change the subscription of a connected client', async () => {
+      await serve();
+      const { cli, connection } = client({});
+      await connection.ready();
+      const handler = jest.fn(() => {});
+      cli.on('build.finished', handler);
+
+      const unsubscribe = connection.subscribe(['build.finished']);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      daemon.emit('build.finished', { target: 'app', ok: true });
+      await until(() => handler.mock.calls.length === 1);
+
+      unsubscribe();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      daemon.emit('build.finished', { target: 'app', ok: false });
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    test('emitAsync should wait for acknowledged remote handlers', async () => {
+      await serve();
+      const { cli, connection } = client({ send: ['build.*'], ack: true });
+      await connection.ready();
+      const finished: string[] = [];
+      daemon.on('build.started', async ({ target }) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        finished.push(target);
+      });
+      daemon.on('build.finished', () => {
+        throw new TypeError('no such target');
+      });
+
+      await cli.emitAsync('build.started', { target: 'app' });
+      expect(finished).toEqual(['app']);
+
+      const error = await cli.emitAsync('build.finished', { target: 'app', ok: true }).catch(err => err);
+      expect(error).toBeInstanceOf(HandlerError);
+      expect(error.cause).toBeInstanceOf(RemoteHandlerError);
+      expect(error.cause.remoteName).toBe('TypeError');
+    });
+
+    test('should queue events while disconnected and reconnect with backoff', async () => {
+      const { cli, connection } = client({ send: ['log.line'], reconnect: { initialDelay: 10, maxDelay: 20 } });
+      cli.emit('log.line', 'one');
+      cli.emit('log.line', 'two');
+      expect(connection.connected).toBe(false);
+      const lines: string[] = [];
+      daemon.on('log.line', line => {
+        lines.push(line);
+      });
+
+      const server = await serve();
+      await connection.ready();
+      await until(() => lines.length === 2);
+      expect(lines).toEqual(['one', 'two']);
+
+      // Restart the daemon: the client reconnects by itself.
+      await server.close();
+      await until(() => !connection.connected);
+      cli.emit('log.line', 'three');
+      await serve();
+      await connection.ready();
+      await until(() => lines.length === 3);
+      expect(lines).toEqual(['one', 'two', 'three']);
+    });
+
+    test('should fail queued events with ConnectionClosedError when giving up', async () => {
+      const { cli, connection } = client({ send: ['log.line'], ack: true, reconnect: { initialDelay: 5, retries: 2 } });
+      const sent = cli.emitAsync('log.line', 'lost').catch(err => err);
+
+      await expect(connection.ready()).rejects.toThrow(ConnectionClosedError);
+      const error = await sent;
+      expect(error.cause).toBeInstanceOf(ConnectionClosedError);
+      expect(error.cause.message).toBe('Connection closed before event "log.line" was acknowledged');
+    });
+
+    test('should not report errors from before a reconnect as the cause of a later close', async () => {
+      const { connection } = client({ reconnect: { initialDelay: 10 } });
+      // The first attempt fails, as nothing listens yet.
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await serve();
+      await connection.ready();
+
+      await connection.close();
+      const error = await connection.ready().catch(err => err);
+      expect(error).toBeInstanceOf(ConnectionClosedError);
+      expect(error.cause).toBeUndefined();
+    });
+
+    test('should close connections sending invalid frames', async () => {
+      const onError = jest.fn(() => {});
+      const server = await serve({ maxFrameSize: 64, onError });
+      const socket = createConnection({ path });
+      await new Promise(resolve => socket.once('connect', resolve));
+      const header = Buffer.alloc(4);
+      header.writeUInt32BE(1024, 0);
+      socket.write(header);
+
+      await new Promise(resolve => socket.once('close', resolve));
+      expect(onError).toHaveBeenCalledWith(expect.any(FrameError));
+      expect(server.connections).toBe(0);
+    });
+
+    test('should encode payloads with the configured codec', async () => {
+      interface Audit {
+        'build.finished': { target: string; at: Date; sizes: Map<string, bigint> };
+      }
+      const auditor = new TypeSafeEmitter<Audit>();
+      const server = await serveSocket(auditor, { path, codec: jsonCodec() });
+      cleanups.push(() => server.close());
+      const cli = new TypeSafeEmitter<Audit>();
+      const connection = connectSocket(cli, { path, receive: ['build.finished'], codec: jsonCodec() });
+      cleanups.push(() => connection.close());
+      await connection.ready();
+      const handler = jest.fn(() => {}) as jest.MockedFunction<(data: Audit['build.finished']) => void>;
+      cli.on('build.finished', handler);
+
+      const payload = { target: 'app', at: new Date(1000), sizes: new Map([['main.js', 123n]]) };
+      auditor.emit('build.finished', payload);
+      await until(() => handler.mock.calls.length === 1);
+
+      expect(handler.mock.calls[0][0]).toEqual(payload);
+      expect(handler.mock.calls[0][0].at).toBeInstanceOf(Date);
+    });
+
+    test('connectSocket should be typed against the event map', () => {
+      const typeChecks = (connection: SocketClient<DaemonEvents>) => {
+        // @ts-expect-error unknown event
+        connection.subscribe(['build.queued']);
+        connection.subscribe(['build.*', 'shutdown']);
+      };
+      expect(typeChecks).toBeInstanceOf(Function);
+    });
+  });
+
+  describe('Codecs', () => {
+    interface StoreEvents {
+      order: {
+        id: bigint;
+        placedAt: Date;
+        items: Map<string, number>;
+        tags: Set<string>;
+        receipt: Uint8Array;
+        failure?: Error;
+        note: string | undefined;
+      };
+      metric: number;
+      raw: Record<string, unknown>;
+    }
+    const order: StoreEvents['order'] = {
+      id: 12345678901234567890n,
+      placedAt: new Date('2024-03-09T12:00:00Z'),
+      items: new Map([['apple', 3], ['pear', -1]]),
+      tags: new Set(['gift', 'express']),
+      receipt: new Uint8Array([0, 1, 254, 255]),
+      failure: Object.assign(new TypeError('card declined'), { cause: new Error('insufficient funds') }),
+      note: undefined,
+    };
+
+    type RoundTrip = <K extends keyof StoreEvents>(eventName: K, data: StoreEvents[K]) => StoreEvents[K];
+    const roundTrips: Record<string, RoundTrip> = {
+      jsonCodec: (eventName, data) => jsonCodec<StoreEvents>().decode(eventName, jsonCodec<StoreEvents>().encode(eventName, data)),
+      binaryCodec: (eventName, data) => binaryCodec<StoreEvents>().decode(eventName, binaryCodec<StoreEvents>().encode(eventName, data)),
+    };
+
+    test.each(Object.keys(roundTrips))('%s should round-trip rich payloads', name => {
+      const roundTrip = roundTrips[name];
+      const decoded = roundTrip('order', order);
+
+      expect(decoded).toEqual(order);
+      expect(decoded.failure).toBeInstanceOf(TypeError);
+      expect(decoded.failure!.message).toBe('card declined');
+      expect((decoded.failure as { cause?: Error }).cause!.message).toBe('insufficient funds');
+      expect('note' in decoded).toBe(true);
+      for (const value of [NaN, -0, Infinity, 2 ** 53 + 2, -7]) {
+        expect(roundTrip('metric', value)).toBe(value);
+      }
+      // Plain objects using the JSON codec's tag key are not mistaken for tagged values.
+      expect(roundTrip('raw', { $t: 'Date', v: 1 })).toEqual({ $t: 'Date', v: 1 });
+    });
+
+    test.each(Object.keys(roundTrips))('%s should decode a "__proto__" key as an own property', name => {
+      const raw = JSON.parse('{"__proto__":{"polluted":true},"nested":{"__proto__":{"admin":true}}}');
+      const decoded = roundTrips[name]('raw', raw);
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__', 'nested']);
+      expect(Object.getOwnPropertyDescriptor(decoded, '__proto__')!.value).toEqual({ polluted: true });
+      expect(decoded.polluted).toBeUndefined();
+      expect(Object.getPrototypeOf(decoded.nested)).toBe(Object.prototype);
+      expect((decoded.nested as Record<string, unknown>).admin).toBeUndefined();
+    });
+
+    test('binaryCodec should be more compact than jsonCodec', () => {
+      const json = jsonCodec<StoreEvents>().encode('order', order);
+      const binary = binaryCodec<StoreEvents>().encode('order', order);
+      expect(binary).toBeInstanceOf(Uint8Array);
+      expect(binary.length).toBeLessThan(json.length);
+    });
+
+    test('should throw CodecErrors naming the event and field', () => {
+      const codec = jsonCodec<StoreEvents>();
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      const cases: Array<[unknown, string, string]> = [
+        [{ user: { callback: () => {} } }, 'user.callback', 'values of type function are not supported'],
+        [{ list: [1, new URL('https://example.com')] }, 'list[1]', 'URL instances are not supported'],
+        [{ 'odd key': Symbol('x') }, '["odd key"]', 'values of type symbol are not supported'],
+        [circular, 'self', 'circular references are not supported'],
+      ];
+      for (const [payload, field, reason] of cases) {
+        for (const encode of [() => codec.encode('raw', payload as never), () => binaryCodec<StoreEvents>().encode('raw', payload as never)]) {
+          const error = (() => {
+            try {
+              encode();
+            } catch (err) {
+              return err as CodecError;
+            }
+          })();
+          expect(error).toBeInstanceOf(CodecError);
+          expect(error!.eventName).toBe('raw');
+          expect(error!.operation).toBe('encode');
+          expect(error!.field).toBe(field);
+          expect(error!.message).toBe(`Cannot encode event "raw" at "${field}": ${reason}`);
+        }
+      }
+    });
+
+    test('should reject malformed input when decoding', () => {
+      expect(() => jsonCodec<StoreEvents>().decode('metric', '{')).toThrow('Cannot decode event "metric": invalid JSON');
+      expect(() => jsonCodec<StoreEvents>().decode('raw', '{"when":{"$t":"Moment"}}'))
+        .toThrow('Cannot decode event "raw" at "when": unknown tag "Moment"');
+
+      const encoded = binaryCodec<StoreEvents>().encode('order', order);
+      expect(() => binaryCodec<StoreEvents>().decode('order', encoded.subarray(0, encoded.length - 3))).toThrow(CodecError);
+      expect(() => binaryCodec<StoreEvents>().decode('order', new Uint8Array([9]))).toThrow('unsupported format version 9');
+    });
+
+    test('per-event transforms should run around encoding', () => {
+      class Money {
+        constructor(readonly cents: number) {}
+      }
+      interface Ledger {
+        paid: Money;
+      }
+      const codec = binaryCodec<Ledger>({
+        events: {
+          paid: { encode: money => money.cents, decode: cents => new Money(cents as number) },
+        },
+      });
+
+      const decoded = codec.decode('paid', codec.encode('paid', new Money(250)));
+      expect(decoded).toBeInstanceOf(Money);
+      expect(decoded.cents).toBe(250);
+      expect(() => binaryCodec<Ledger>().encode('paid', new Money(1))).toThrow('Money instances are not supported');
+    });
+  });
+
+  describe('Event Log', () => {
+    interface ScoreEvents {
+      scoreUpdate: { playerId: string; scoreChange: number; at: Date };
+      chat: string;
+    }
+    let dir: string;
+    let path: string;
+    let log: EventLog<ScoreEvents>;
+    const score = (playerId: string, scoreChange: number) => ({ playerId, scoreChange, at: new Date(1000) });
+
+    // Derives the scores from scoreUpdate events, like the game example.
+    const scoreboard = (emitter: TypeSafeEmitter<ScoreEvents>, scores = new Map<string, number>()) => {
+      emitter.on('scoreUpdate', async ({ playerId, scoreChange }) => {
+        await Promise.resolve();
+        scores.set(playerId, (scores.get(playerId) ?? 0) + scoreChange);
+      });
+      return scores;
+    };
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'typesafe-emitter-'));
+      path = join(dir, 'events.jsonl');
+      log = await EventLog.open<ScoreEvents>(path);
+    });
+
+    afterEach(async () => {
+      await log.close();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should append one JSON line per event', async () => {
+      const entry = await log.append('scoreUpdate', score('p1', 10));
+      await log.append('chat', 'gg');
+
+      expect(entry).toMatchObject({ seq: 1, eventName: 'scoreUpdate' });
+      const lines = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(2);
+      expect(Object.keys(lines[0])).toEqual(['seq', 'timestamp', 'event', 'data']);
+      expect(lines[1]).toMatchObject({ seq: 2, event: 'chat', data: 'gg' });
+      expect(new Date(lines[1].timestamp).getTime()).not.toBeNaN();
+
+      const entries = [];
+      for await (const stored of log.entries()) {
+        entries.push(stored);
+      }
+      expect(entries.map(stored => stored.seq)).toEqual([1, 2]);
+      expect(entries[0].data).toEqual(score('p1', 10));
+    });
+
+    test('should reject appends once closed', async () => {
+      await log.close();
+
+      const appended = log.append('chat', 'too late');
+      await expect(appended).rejects.toBeInstanceOf(LogClosedError);
+      await expect(appended).rejects.toMatchObject({ path });
+    });
+
+    test('replay should rebuild state through emitAsync in order', async () => {
+      const game = new TypeSafeEmitter<ScoreEvents>();
+      log.attach(game, ['scoreUpdate']);
+      await game.emitAsync('scoreUpdate', score('p1', 10));
+      game.emit('chat', 'not recorded');
+      await game.emitAsync('scoreUpdate', score('p2', 5));
+      await game.emitAsync('scoreUpdate', score('p1', -3));
+      expect(log.seq).toBe(3);
+
+      // After a restart: a fresh emitter, with the log attached again.
+      const restarted = new TypeSafeEmitter<ScoreEvents>();
+      const scores = scoreboard(restarted);
+      const order: number[] = [];
+      restarted.on('scoreUpdate', ({ scoreChange }) => {
+        order.push(scoreChange);
+      });
+      log.attach(restarted);
+
+      await expect(replay(log, restarted)).resolves.toBe(3);
+      expect(Object.fromEntries(scores)).toEqual({ p1: 7, p2: 5 });
+      expect(order).toEqual([10, 5, -3]);
+      // The replayed events were not appended again.
+      expect(log.seq).toBe(3);
+
+      const partial = new TypeSafeEmitter<ScoreEvents>();
+      const partialScores = scoreboard(partial);
+      await expect(replay(log, partial, { from: 2, to: 2, events: ['scoreUpdate'] })).resolves.toBe(1);
+      expect(Object.fromEntries(partialScores)).toEqual({ p2: 5 });
+    });
+
+    test('snapshot and compact should let replays start after the snapshot', async () => {
+      const game = new TypeSafeEmitter<ScoreEvents>();
+      const scores = scoreboard(game);
+      log.attach(game);
+      await game.emitAsync('scoreUpdate', score('p1', 10));
+      await game.emitAsync('scoreUpdate', score('p2', 5));
+      const snapshot = await log.snapshot(scores);
+      await game.emitAsync('scoreUpdate', score('p1', 1));
+      expect(snapshot.seq).toBe(2);
+
+      await expect(log.compact()).resolves.toBe(2);
+      await log.close();
+      log = await EventLog.open<ScoreEvents>(path);
+      expect(log.seq).toBe(3);
+
+      const saved = await log.loadSnapshot<Map<string, number>>();
+      expect(saved!.state).toBeInstanceOf(Map);
+      const restarted = new TypeSafeEmitter<ScoreEvents>();
+      const rebuilt = scoreboard(restarted, saved!.state);
+      await expect(replay(log, restarted, { from: saved!.seq + 1 })).resolves.toBe(1);
+      expect(Object.fromEntries(rebuilt)).toEqual({ p1: 11, p2: 5 });
+
+      await log.append('chat', 'after compaction');
+      expect(readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line).seq)).toEqual([3, 4]);
+    });
+
+    test('sequence numbers should continue after the snapshot when reopening a compacted log', async () => {
+      await log.append('chat', 'one');
+      await log.append('chat', 'two');
+      await log.snapshot({ messages: 2 });
+      await expect(log.compact()).resolves.toBe(2);
+      await log.close();
+
+      log = await EventLog.open<ScoreEvents>(path);
+      expect(log.seq).toBe(2);
+      await expect(log.append('chat', 'three')).resolves.toMatchObject({ seq: 3 });
+
+      const emitter = new TypeSafeEmitter<ScoreEvents>();
+      const handler = jest.fn(() => {});
+      emitter.on('chat', handler);
+      await expect(replay(log, emitter, { from: 3 })).resolves.toBe(1);
+      expect(handler.mock.calls).toEqual([['three']]);
+    });
+
+    test('loadSnapshot should reject a corrupt snapshot file', async () => {
+      writeFileSync(`${path}.snapshot`, '{"seq":2,"times');
+
+      await expect(log.loadSnapshot()).rejects.toThrow(CorruptLogError);
+      await expect(log.loadSnapshot()).rejects.toThrow(`Event log "${path}.snapshot" is corrupt at line 1: invalid JSON`);
+    });
+
+    test('open should drop an incomplete last line and reject corrupt lines', async () => {
+      await log.append('chat', 'one');
+      await log.close();
+      appendFileSync(path, '{"seq":2,"timest');
+      log = await EventLog.open<ScoreEvents>(path);
+      await log.append('chat', 'two');
+      expect(readFileSync(path, 'utf8')).toMatch(/"seq":1.*\n.*"seq":2.*"two"\}\n$/);
+
+      await log.close();
+      appendFileSync(path, 'garbage\n');
+      await expect(EventLog.open<ScoreEvents>(path)).rejects.toThrow(CorruptLogError);
+      await expect(EventLog.open<ScoreEvents>(path)).rejects.toThrow('is corrupt at line 3: invalid JSON');
+      log = await EventLog.open<ScoreEvents>(join(dir, 'other.jsonl'));
+    });
+
+    test('open should drop a last line cut off inside a multibyte character', async () => {
+      await log.append('chat', 'één');
+      await log.close();
+      const torn = Buffer.from('{"seq":2,"timestamp":"x","event":"chat","data":"€');
+      appendFileSync(path, torn.subarray(0, torn.length - 1));
+
+      log = await EventLog.open<ScoreEvents>(path);
+      await log.append('chat', 'two');
+      await log.close();
+      log = await EventLog.open<ScoreEvents>(path);
+
+      const entries = [];
+      for await (const stored of log.entries()) {
+        entries.push(stored.data);
+      }
+      expect(entries).toEqual(['één', 'two']);
+    });
+
+    test('replay should stop when aborted or when a handler fails', async () => {
+      await log.append('chat', 'one');
+      await log.append('chat', 'two');
+      const emitter = new TypeSafeEmitter<ScoreEvents>();
+      const controller = new AbortController();
+      emitter.on('chat', () => controller.abort());
+
+      await expect(replay(log, emitter, { signal: controller.signal })).rejects.toThrow(AbortError);
+
+      emitter.on('chat', () => {
+        throw new Error('bad state');
+      });
+      await expect(replay(log, emitter)).rejects.toThrow(HandlerError);
+    });
+  });
+
+  describe('Node EventEmitter Compatibility', () => {
+    interface JobEvents {
+      progress: number;
+      done: { id: string };
+      error: unknown;
+    }
+
+    test('throwOnUnhandledError should throw an unhandled error event like Node', async () => {
+      const jobs = new TypeSafeEmitter<JobEvents>({ throwOnUnhandledError: true });
+      const failure = new Error('disk full');
+
+      expect(() => jobs.emit('error', failure)).toThrow(failure);
+      expect(() => jobs.emit('error', 'oops')).toThrow(UnhandledErrorEventError);
+      expect(() => jobs.emit('error', 'oops')).toThrow('Unhandled "error" event (oops)');
+      await expect(jobs.emitAsync('error', failure)).rejects.toBe(failure);
+      expect(() => jobs.emit('progress', 50)).not.toThrow();
+
+      try {
+        jobs.emit('error', { code: 42 });
+      } catch (err) {
+        expect((err as UnhandledErrorEventError).context).toEqual({ code: 42 });
+      }
+
+      const logHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      jobs.on('*', logHandler);
+      expect(() => jobs.emit('error', failure)).not.toThrow();
+      expect(logHandler).toHaveBeenCalledWith('error', failure);
+
+      const strict = new TypeSafeEmitter<JobEvents>({ throwOnNoListeners: true, throwOnUnhandledError: true });
+      expect(() => strict.emit('error', failure)).toThrow(failure);
+      expect(() => strict.emit('progress', 50)).toThrow(NoListenersError);
+    });
+
+    test('toNodeEmitter should share events in both directions', () => {
+      const jobs = new TypeSafeEmitter<JobEvents>();
+      const node = toNodeEmitter(jobs);
+      const typedHandler = jest.fn(() => {}) as jest.MockedFunction<(data: number) => void>;
+      const nodeHandler = jest.fn(() => {});
+      jobs.on('progress', typedHandler);
+      node.on('progress', nodeHandler);
+
+      expect(node).toBeInstanceOf(EventEmitter);
+      expect(node.emit('progress', 10, 'extra')).toBe(true);
+      jobs.emit('progress', 20);
+
+      expect(typedHandler.mock.calls).toEqual([[10], [20]]);
+      expect(nodeHandler.mock.calls).toEqual([[10, 'extra'], [20]]);
+      expect(node.listenerCount('progress')).toBe(2);
+      expect(node.emit('done', { id: 'a' })).toBe(false);
+
+      node.removeListener('progress', nodeHandler);
+      node.emit('progress', 30);
+      expect(nodeHandler).toHaveBeenCalledTimes(2);
+      expect(node.listenerCount('progress')).toBe(1);
+    });
+
+    test('toNodeEmitter should follow Node semantics for once, errors and listener failures', () => {
+      const jobs = new TypeSafeEmitter<JobEvents>();
+      const node = toNodeEmitter(jobs);
+      const onceHandler = jest.fn(() => {});
+      node.once('done', onceHandler);
+      expect(node.emit('done', { id: 'a' })).toBe(true);
+      expect(node.emit('done', { id: 'b' })).toBe(false);
+      expect(onceHandler.mock.calls).toEqual([[{ id: 'a' }]]);
+
+      // Only a Node listener handles it, so the typed emitter does not see an unhandled event.
+      const strict = new TypeSafeEmitter<JobEvents>({ throwOnNoListeners: true });
+      toNodeEmitter(strict).on('progress', () => {});
+      expect(() => strict.emit('progress', 1)).not.toThrow();
+
+      const failure = new Error('disk full');
+      expect(() => node.emit('error', failure)).toThrow(failure);
+      expect(() => node.emit('error', 'oops')).toThrow(expect.objectContaining({ code: 'ERR_UNHANDLED_ERROR' }) as unknown as Error);
+
+      jobs.on('error', () => {
+        throw new TypeError('handler bug');
+      });
+      // Like Node, the listener's error propagates as it was thrown.
+      expect(() => node.emit('error', failure)).toThrow(TypeError);
+    });
+
+    test('toNodeEmitter should keep sticky payloads, history and later middleware for events only Node listeners handle', () => {
+      const jobs = new TypeSafeEmitter<JobEvents>({ sticky: { progress: true }, history: true, throwOnNoListeners: true });
+      const controller = new AbortController();
+      const node = toNodeEmitter(jobs, { signal: controller.signal });
+      const nodeHandler = jest.fn(() => {});
+      const seen: Array<keyof JobEvents> = [];
+      node.on('progress', nodeHandler);
+      jobs.use((ctx, next) => {
+        seen.push(ctx.eventName);
+        return next();
+      });
+
+      jobs.emit('progress', 40);
+      node.emit('progress', 60);
+      expect(nodeHandler.mock.calls).toEqual([[40], [60]]);
+      expect(jobs.getLast('progress')).toBe(60);
+      expect(jobs.history().map(entry => entry.data)).toEqual([40, 60]);
+      expect(seen).toEqual(['progress', 'progress']);
+
+      controller.abort();
+      expect(() => jobs.emit('progress', 80)).toThrow(NoListenersError);
+      expect(nodeHandler).toHaveBeenCalledTimes(2);
+      expect(node.emit('progress', 90)).toBe(true);
+      expect(jobs.getLast('progress')).toBe(80);
+    });
+
+    test('fromNodeEmitter should deliver events only Node listeners handle to the typed emitter too', () => {
+      const node = new EventEmitter();
+      const typed = fromNodeEmitter<{ ping: string }>(node, { sticky: { ping: true }, throwOnNoListeners: true });
+      const nodePing = jest.fn(() => {});
+      node.on('ping', nodePing);
+
+      expect(() => typed.emit('ping', 'hi')).not.toThrow();
+      expect(nodePing).toHaveBeenCalledWith('hi');
+      expect(typed.getLast('ping')).toBe('hi');
+    });
+
+    test('fromNodeEmitter should emit events from the Node side on the typed emitter without typed listeners', () => {
+      const node = new EventEmitter();
+      const typed = fromNodeEmitter<{ ping: string; pong: string }>(node, { sticky: { ping: true }, history: true, throwOnNoListeners: true });
+      const seen = jest.fn((eventName: string) => {});
+      typed.use((ctx, next) => {
+        seen(ctx.eventName);
+        return next();
+      });
+      const nodePing = jest.fn(() => {});
+      node.on('ping', nodePing);
+
+      expect(node.emit('ping', 'hi')).toBe(true);
+      expect(node.emit('pong', 'nobody')).toBe(false);
+
+      expect(nodePing).toHaveBeenCalledWith('hi');
+      expect(seen.mock.calls).toEqual([['ping'], ['pong']]);
+      expect(typed.getLast('ping')).toBe('hi');
+      expect(typed.history().map(entry => entry.eventName)).toEqual(['ping', 'pong']);
+    });
+
+    test('fromNodeEmitter should type a stream and handle its errors', async () => {
+      const stream = new PassThrough();
+      const typed = fromNodeEmitter<{ data: Buffer; end: void; error: Error }>(stream);
+      const chunks: string[] = [];
+      const errorHandler = jest.fn(() => {}) as jest.MockedFunction<(error: Error) => void>;
+      typed.on('data', chunk => {
+        chunks.push(chunk.toString());
+      });
+      const ended = typed.waitFor('end');
+      // The stream only starts flowing by itself when a Node 'data' listener is added.
+      stream.resume();
+
+      stream.write('hello ');
+      stream.end('world');
+      await ended;
+      expect(chunks.join('')).toBe('hello world');
+
+      // Without a Node 'error' listener, the stream would crash the process.
+      const broken = new PassThrough();
+      const brokenTyped = fromNodeEmitter<{ error: Error }>(broken);
+      brokenTyped.on('error', errorHandler);
+      const failure = new Error('broken pipe');
+      const failed = brokenTyped.waitFor('error');
+      broken.destroy(failure);
+      await expect(failed).resolves.toBe(failure);
+      expect(errorHandler).toHaveBeenCalledWith(failure);
+    });
+
+    test('fromNodeEmitter should pass events both ways and detach when aborted', () => {
+      const node = new EventEmitter();
+      const controller = new AbortController();
+      const typed = fromNodeEmitter<{ exit: [number, string]; ping: string }>(node, { multiArgs: ['exit'], signal: controller.signal });
+      const exitHandler = jest.fn(() => {}) as jest.MockedFunction<(data: [number, string]) => void>;
+      const nodePing = jest.fn(() => {});
+      typed.on('exit', exitHandler);
+      node.on('ping', nodePing);
+
+      expect(node.emit('exit', 1, 'SIGTERM')).toBe(true);
+      typed.emit('ping', 'hi');
+      expect(exitHandler).toHaveBeenCalledWith([1, 'SIGTERM']);
+      expect(nodePing.mock.calls).toEqual([['hi']]);
+
+      // Events coming from the Node emitter are not passed back to it.
+      typed.on('ping', () => {});
+      node.emit('ping', 'again');
+      expect(nodePing).toHaveBeenCalledTimes(2);
+
+      controller.abort();
+      expect(Object.prototype.hasOwnProperty.call(node, 'emit')).toBe(false);
+      node.emit('exit', 0, 'SIGINT');
+      typed.emit('ping', 'gone');
+      expect(exitHandler).toHaveBeenCalledTimes(1);
+      expect(nodePing).toHaveBeenCalledTimes(2);
+    });
+
+    test('Node adapters should keep types', () => {
+      const typeChecks = () => {
+        const node: EventEmitter = toNodeEmitter(new TypeSafeEmitter<JobEvents>());
+        const typed = fromNodeEmitter<JobEvents>(node);
+        typed.on('progress', (percent: number) => console.log(percent.toFixed(0)));
+        // @ts-expect-error - progress carries a number
+        typed.emit('progress', 'half');
+        // @ts-expect-error - multiArgs must name events of the map
+        fromNodeEmitter<JobEvents>(node, { multiArgs: ['unknown'] });
+      };
+      expect(typeChecks).toBeInstanceOf(Function);
+    });
+  });
+
+  describe('DOM EventTarget Interop', () => {
+    interface CartEvents {
+      'cart:add': { sku: string; quantity: number };
+      'cart:clear': undefined;
+      ping: Event;
+    }
+
+    test('toEventTarget should route dispatched CustomEvents into emit', () => {
+      const cart = new TypeSafeEmitter<CartEvents>();
+      const target = toEventTarget(cart);
+      const addHandler = jest.fn(() => {}) as jest.MockedFunction<(data: CartEvents['cart:add']) => void>;
+      const pingHandler = jest.fn(() => {}) as jest.MockedFunction<(data: Event) => void>;
+      cart.on('cart:add', addHandler);
+      cart.on('ping', pingHandler);
+
+      expect(target).toBeInstanceOf(EventTarget);
+      expect(target.dispatchEvent(new CustomEvent('cart:add', { detail: { sku: 'a1', quantity: 2 } }))).toBe(true);
+      const ping = new Event('ping');
+      target.dispatchEvent(ping);
+
+      expect(addHandler).toHaveBeenCalledWith({ sku: 'a1', quantity: 2 });
+      expect(pingHandler).toHaveBeenCalledWith(ping);
+    });
+
+    test('toEventTarget listeners should receive events from both sides', () => {
+      const cart = new TypeSafeEmitter<CartEvents>();
+      const target = toEventTarget(cart);
+      const details: unknown[] = [];
+      const dispatched = new CustomEvent('cart:add', { detail: { sku: 'b2', quantity: 1 }, cancelable: true });
+      target.addEventListener('cart:add', event => {
+        details.push((event as CustomEvent).detail);
+        event.preventDefault();
+      });
+
+      cart.emit('cart:add', { sku: 'a1', quantity: 2 });
+      expect(target.dispatchEvent(dispatched)).toBe(false);
+
+      expect(details).toEqual([{ sku: 'a1', quantity: 2 }, { sku: 'b2', quantity: 1 }]);
+    });
+
+    test('toEventTarget should respect once, signal and capture', () => {
+      const cart = new TypeSafeEmitter<CartEvents>();
+      const target = toEventTarget(cart);
+      const controller = new AbortController();
+      const onceHandler = jest.fn(() => {});
+      const signalHandler = jest.fn(() => {});
+      const captureHandler = jest.fn(() => {});
+      target.addEventListener('cart:clear', onceHandler, { once: true });
+      target.addEventListener('cart:clear', signalHandler, { signal: controller.signal });
+      target.addEventListener('cart:clear', captureHandler, { capture: true });
+
+      cart.emit('cart:clear', undefined);
+      controller.abort();
+      cart.emit('cart:clear', undefined);
+      target.removeEventListener('cart:clear', captureHandler);
+      cart.emit('cart:clear', undefined);
+      target.removeEventListener('cart:clear', captureHandler, { capture: true });
+      cart.emit('cart:clear', undefined);
+
+      expect(onceHandler).toHaveBeenCalledTimes(1);
+      expect(signalHandler).toHaveBeenCalledTimes(1);
+      // A capture listener is only removed with capture: true, as in the DOM.
+      expect(captureHandler).toHaveBeenCalledTimes(3);
+    });
+
+    test('toEventTarget should not treat events DOM listeners handle as unhandled, and detach when aborted', () => {
+      const cart = new TypeSafeEmitter<CartEvents>({ throwOnNoListeners: true, sticky: { 'cart:add': true } });
+      const controller = new AbortController();
+      const target = toEventTarget(cart, { signal: controller.signal });
+      const handleEvent = jest.fn(() => {}) as jest.MockedFunction<(event: Event) => void>;
+      target.addEventListener('cart:add', { handleEvent });
+
+      expect(() => cart.emit('cart:add', { sku: 'a1', quantity: 1 })).not.toThrow();
+      expect(() => target.dispatchEvent(new CustomEvent('cart:add', { detail: { sku: 'b2', quantity: 2 } }))).not.toThrow();
+      expect(handleEvent).toHaveBeenCalledTimes(2);
+      expect(cart.getLast('cart:add')).toEqual({ sku: 'b2', quantity: 2 });
+      expect(() => cart.emit('cart:clear', undefined)).toThrow(NoListenersError);
+
+      // Once detached, the EventTarget keeps its listeners but no longer reaches the emitter.
+      controller.abort();
+      expect(() => cart.emit('cart:add', { sku: 'c3', quantity: 3 })).toThrow(NoListenersError);
+      expect(target.dispatchEvent(new CustomEvent('cart:add', { detail: { sku: 'd4', quantity: 4 } }))).toBe(true);
+      expect(handleEvent).toHaveBeenCalledTimes(3);
+      expect(cart.getLast('cart:add')).toEqual({ sku: 'c3', quantity: 3 });
+    });
+
+    test('fromEventTarget should emit typed detail payloads', () => {
+      const target = new EventTarget();
+      const cart = fromEventTarget<CartEvents>(target, ['cart:add', 'ping']);
+      const addHandler = jest.fn(() => {}) as jest.MockedFunction<(data: CartEvents['cart:add']) => void>;
+      const pingHandler = jest.fn(() => {}) as jest.MockedFunction<(data: Event) => void>;
+      cart.on('cart:add', addHandler);
+      cart.on('ping', pingHandler);
+
+      target.dispatchEvent(new CustomEvent('cart:add', { detail: { sku: 'a1', quantity: 2 } }));
+      target.dispatchEvent(new CustomEvent('cart:clear'));
+      const ping = new Event('ping');
+      target.dispatchEvent(ping);
+
+      expect(addHandler).toHaveBeenCalledWith({ sku: 'a1', quantity: 2 });
+      expect(pingHandler).toHaveBeenCalledWith(ping);
+    });
+
+    test('fromEventTarget should pass once and signal to addEventListener', () => {
+      const target = new EventTarget();
+      const controller = new AbortController();
+      const once = fromEventTarget<CartEvents>(target, ['cart:add'], { once: true });
+      const untilAborted = fromEventTarget<CartEvents>(target, ['cart:add'], { signal: controller.signal, capture: true });
+      const onceHandler = jest.fn(() => {});
+      const abortedHandler = jest.fn(() => {});
+      once.on('cart:add', onceHandler);
+      untilAborted.on('cart:add', abortedHandler);
+
+      target.dispatchEvent(new CustomEvent('cart:add', { detail: { sku: 'a1', quantity: 1 } }));
+      controller.abort();
+      target.dispatchEvent(new CustomEvent('cart:add', { detail: { sku: 'a1', quantity: 2 } }));
+
+      expect(onceHandler).toHaveBeenCalledTimes(1);
+      expect(abortedHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('DOM adapters should keep types', () => {
+      const typeChecks = () => {
+        const cart = fromEventTarget<CartEvents>(new EventTarget(), ['cart:add']);
+        cart.on('cart:add', ({ sku }) => console.log(sku.toUpperCase()));
+        // @ts-expect-error - only events of the map can be listened to
+        fromEventTarget<CartEvents>(new EventTarget(), ['cart:remove']);
+        const target: EventTarget = toEventTarget(cart);
+        target.dispatchEvent(new CustomEvent('cart:clear'));
+      };
+      expect(typeChecks).toBeInstanceOf(Function);
+    });
+  });
+
+  describe('Symbol and Number Event Keys', () => {
+    const internal = Symbol('internal');
+    interface KeyedEvents {
+      [internal]: { reason: string };
+      404: string;
+      'user.created': { id: string };
+    }
+    let keyed: TypeSafeEmitter<KeyedEvents>;
+
+    beforeEach(() => {
+      keyed = new TypeSafeEmitter<KeyedEvents>();
+    });
+
+    test('should dispatch symbol and number keys exactly', async () => {
+      const internalHandler = jest.fn(() => {}) as jest.MockedFunction<(data: { reason: string }) => void>;
+      const numberHandler = jest.fn(() => {}) as jest.MockedFunction<(data: string) => void>;
+      const onceHandler = jest.fn(() => {}) as jest.MockedFunction<(data: { reason: string }) => void>;
+      keyed.on(internal, internalHandler);
+      keyed.on(404, numberHandler);
+      keyed.once(internal, onceHandler);
+
+      keyed.emit(internal, { reason: 'flush' });
+      await keyed.emitAsync(internal, { reason: 'again' });
+      keyed.emit(404, 'not found');
+
+      expect(internalHandler.mock.calls).toEqual([[{ reason: 'flush' }], [{ reason: 'again' }]]);
+      expect(onceHandler.mock.calls).toEqual([[{ reason: 'flush' }]]);
+      expect(numberHandler.mock.calls).toEqual([['not found']]);
+
+      keyed.off(404, numberHandler);
+      keyed.emit(404, 'gone');
+      expect(numberHandler).toHaveBeenCalledTimes(1);
+    });
+
+    test('star listeners should receive the real key and patterns should skip them', () => {
+      const starHandler = jest.fn(() => {}) as jest.MockedFunction<(eventName: keyof KeyedEvents, data: unknown) => void>;
+      const patternHandler = jest.fn(() => {}) as jest.MockedFunction<WildcardEventHandler>;
+      keyed.on('*', starHandler);
+      (keyed as TypeSafeEmitter<any>).on('**', patternHandler);
+
+      keyed.emit(internal, { reason: 'flush' });
+      keyed.emit(404, 'not found');
+      keyed.emit('user.created', { id: 'u1' });
+
+      expect(starHandler.mock.calls.map(([eventName]) => eventName)).toEqual([internal, 404, 'user.created']);
+      expect(patternHandler.mock.calls).toEqual([['user.created', { id: 'u1' }]]);
+    });
+
+    test('introspection should report the real keys', () => {
+      const handler = () => {};
+      keyed.on(internal, handler);
+      keyed.on(404, handler);
+      keyed.on('user.created', handler);
+
+      expect(keyed.eventNames()).toEqual([internal, 404, 'user.created']);
+      expect(keyed.listenerCount(404)).toBe(1);
+      expect(keyed.listenerCount()).toBe(3);
+      expect(keyed.hasListeners(internal)).toBe(true);
+      expect(keyed.listeners(internal)).toEqual([handler]);
+
+      keyed.clear(404);
+      expect(keyed.eventNames()).toEqual([internal, 'user.created']);
+      keyed.clear(internal);
+      expect(keyed.eventNames()).toEqual(['user.created']);
+    });
+
+    test('clear should only clear event 0 when given 0', () => {
+      const zeroEmitter = new TypeSafeEmitter<{ 0: string; 1: string }>();
+      zeroEmitter.on(0, () => {});
+      zeroEmitter.on(1, () => {});
+
+      zeroEmitter.clear(0);
+
+      expect(zeroEmitter.eventNames()).toEqual([1]);
+    });
+
+    test('errors should name symbol and number keys', () => {
+      const strict = new TypeSafeEmitter<KeyedEvents>({ throwOnNoListeners: true });
+      expect(() => strict.emit(internal, { reason: 'flush' })).toThrow('No listeners for event "Symbol(internal)"');
+      expect(() => strict.emit(404, 'not found')).toThrow('No listeners for event "404"');
+
+      keyed.on(internal, () => {
+        throw new Error('boom');
+      });
+      try {
+        keyed.emit(internal, { reason: 'flush' });
+      } catch (err) {
+        expect((err as HandlerError).eventName).toBe(internal);
+        expect((err as HandlerError).message).toBe('Handler for event "Symbol(internal)" failed: boom');
+      }
+      expect.assertions(4);
+    });
+
+    test('per-event options should apply to number keys', () => {
+      const onPossibleLeak = jest.fn(() => {});
+      const configured = new TypeSafeEmitter<KeyedEvents>({
+        maxListenersPerEvent: { 404: 1, [internal]: 1 },
+        onPossibleLeak,
+        sticky: { 404: true },
+      });
+      configured.on(404, () => {});
+      configured.on(404, () => {});
+      configured.on(internal, () => {});
+      configured.on(internal, () => {});
+      expect(onPossibleLeak).toHaveBeenCalledTimes(2);
+
+      configured.emit(404, 'cached');
+      const replayed = jest.fn(() => {}) as jest.MockedFunction<(data: string) => void>;
+      configured.on(404, replayed, { replay: true });
+      expect(replayed).toHaveBeenCalledWith('cached');
+    });
+
+    test('scopes should reject symbol keys', () => {
+      const scope: EmitterScope<any> = keyed.scope('user');
+      expect(() => scope.on(internal, () => {})).toThrow(InvalidEventNameError);
+      expect(() => scope.emit(internal, {})).toThrow('Symbol event name Symbol(internal) cannot be used through a scope.');
+    });
+
+    test('symbol and number keys should keep types', () => {
+      const typeChecks = () => {
+        keyed.on(internal, ({ reason }) => console.log(reason.toUpperCase()));
+        keyed.on(404, (message: string) => console.log(message));
+        keyed.on('*', (eventName, data) => {
+          if (eventName === internal) {
+            console.log(data.reason);
+          }
+        });
+        // @ts-expect-error - the symbol event carries an object
+        keyed.emit(internal, 'flush');
+        // @ts-expect-error - 404 carries a string, '404' a boolean
+        keyed.emit(404, true);
+      };
+      expect(typeChecks).toBeInstanceOf(Function);
+    });
+  });
+});
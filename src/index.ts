@@ -1,16 +1,284 @@
-import { NoListenersError, InvalidEventNameError } from './errors';
+import { NoListenersError, UnhandledErrorEventError, InvalidEventNameError, HandlerError, AbortError, WaitForTimeoutError, PossibleListenerLeak, NoResponderError, DuplicateResponderError } from './errors';
+import { PatternIndex, configKey, isPattern } from './matcher';
+import { AnyHandler, Listener, ListenerList, ScopeToken, invokeListener, isWithinScope, mergeListeners } from './listeners';
+import { EmitAsyncOptions, EmitAsyncResult, HandlerOutcome, createOutcomes, dispatchAsync } from './dispatch';
+import { HistoryEntry, HistoryOptions, HistoryQuery, HistoryRecorder, serializeHistory } from './history';
+import { IterateOptions, createEventIterator } from './iterator';
+import { captureStack, recentStacks } from './leaks';
+import { EmitterScope, validateScopePrefix } from './scope';
+import { PipeArgs, PipeMapper, forwardEvent } from './pipe';
+import { ReplayOption, StickyCache, StickyConfig } from './sticky';
+import { RequestName, RequestOptions, Responder, ResponseMap, callResponder } from './rpc';
+import { BufferOptions, Clock, TimingOptions, createTimedHandler, hasTimingOperator, systemClock } from './timing';
+import { PayloadValidators, ValidationMode, isValidationEnabled, validatePayload } from './validation';
+import { EmitContext, Middleware, MiddlewareEntry, MiddlewareEventNames, createMiddlewareEntry, isHandledExternally, runMiddleware } from './middleware';
+import { MatchingEventNames, PatternBatchArgs, PatternEventHandler, PatternHandlerArgs, ScopedEvents, WildcardPattern } from './types';
+
+export * from './errors';
+
+export { CodecOptions, EventCodec, PayloadTransform, binaryCodec, jsonCodec } from './codec';
+
+export { EmitAsyncMode, EmitAsyncOptions, EmitAsyncResult, HandlerOutcome } from './dispatch';
+
+export { FromEventTargetOptions, ToEventTargetOptions, fromEventTarget, toEventTarget } from './dom';
+
+export { EventLog, EventLogOptions, LogEntry, LogRange, ReplayOptions, Snapshot, replay } from './eventlog';
+
+export { HistoryEntry, HistoryOptions, HistoryPayload, HistoryQuery, redispatch, serializeHistory } from './history';
+
+export { IterateOptions, OverflowPolicy } from './iterator';
+
+export { FromNodeEmitterOptions, ToNodeEmitterOptions, fromNodeEmitter, toNodeEmitter } from './node';
+
+export { MessageEndpoint, PortTransport, PortTransportOptions, connectPort } from './port';
+
+export {
+  ReconnectOptions,
+  SocketAddress,
+  SocketClient,
+  SocketClientOptions,
+  SocketServer,
+  SocketServerOptions,
+  SocketTransportOptions,
+  connectSocket,
+  serveSocket,
+} from './socket';
+
+export { EmitContext, Middleware, MiddlewareEventNames, NextFunction } from './middleware';
+
+export { EmitterScope, ScopeListenerOptions } from './scope';
+
+export { ForwardableEvents, PipeArgs, PipeEntry, PipeMapper, PipeOptions, PipedEvents } from './pipe';
+
+export { ReplayOption, StickyConfig } from './sticky';
+
+export { RequestName, RequestOptions, Responder, ResponseMap } from './rpc';
+
+export { BufferOptions, Clock, ThrottleOptions, TimingOptions } from './timing';
+
+export { PayloadGuard, PayloadParser, PayloadValidator, PayloadValidators, ValidationMode } from './validation';
+
+export {
+  MatchesPattern,
+  MatchingEventNames,
+  PatternEventHandler,
+  PatternBatchArgs,
+  PatternHandlerArgs,
+  ScopedEvents,
+  Segments,
+  WildcardPattern,
+} from './types';
 
 /**
  * Type definition for event handlers
  * Can be synchronous or asynchronous (return a Promise).
  */
-type EventHandler<T> = (data: T) => void | Promise<void>;
+type EventHandler<T> = (data: T, signal?: AbortSignal) => void | Promise<void>;
 
 /**
  * Type definition for wildcard event handlers
  * Can be synchronous or asynchronous (return a Promise).
  */
-export type WildcardEventHandler = (eventName: string, data: any) => void | Promise<void>;
+export type WildcardEventHandler = (eventName: string, data: any, signal?: AbortSignal) => void | Promise<void>;
+
+/**
+ * The handler type accepted for an event name or pattern.
+ * Patterns get a PatternEventHandler typed from the events they match, keys of `T` get an
+ * EventHandler for their payload, and names only known at runtime fall back to WildcardEventHandler.
+ */
+export type HandlerFor<T, K> = K extends WildcardPattern
+  ? PatternEventHandler<T, K>
+  : K extends keyof T
+    ? EventHandler<T[K]>
+    : WildcardEventHandler;
+
+/**
+ * The handler type accepted by `on` with `bufferTime` or `bufferCount`, which receives arrays of payloads.
+ * Patterns get `(eventName, data[])` per concrete event, keys of `T` get `(data[])`.
+ */
+export type BufferedHandlerFor<T, K> = K extends WildcardPattern
+  ? (...args: PatternBatchArgs<T, MatchingEventNames<T, K>>) => void | Promise<void>
+  : K extends keyof T
+    ? (data: T[K][]) => void | Promise<void>
+    : (data: any[]) => void | Promise<void>;
+
+/**
+ * The values `iterate` yields for an event name or pattern.
+ * Patterns yield `[eventName, data]` tuples typed from the events they match, keys of `T`
+ * yield their payload, and names only known at runtime yield `any`.
+ */
+export type IterateValue<T, K> = K extends WildcardPattern
+  ? PatternHandlerArgs<T, MatchingEventNames<T, K>>
+  : K extends keyof T
+    ? T[K]
+    : any;
+
+/**
+ * Resolves to the event name itself if it can be subscribed to, or to a descriptive
+ * string literal type if it is a pattern that matches no event in `T`, which turns
+ * such subscriptions into compile-time errors.
+ */
+export type SubscribableName<T, K> = K extends WildcardPattern
+  ? [MatchingEventNames<T, K>] extends [never]
+    ? `Pattern "${K}" does not match any event`
+    : K
+  : K;
+
+/**
+ * Options accepted by `on` and `once`.
+ */
+export interface ListenerOptions {
+  /**
+   * Listeners with a higher priority run first. The order applies across exact, '*' and
+   * pattern listeners alike. Defaults to 0.
+   */
+  priority?: number;
+  /**
+   * If true, the listener runs before the listeners already registered with the same
+   * priority, like Node's `prependListener`. Defaults to false.
+   */
+  prepend?: boolean;
+  /**
+   * Aborting the signal removes the listener. If the signal is already aborted,
+   * the listener is not added.
+   */
+  signal?: AbortSignal;
+  /**
+   * Deliver the cached payloads of sticky events right away: `true` for every cached payload,
+   * a number for at most that many of the latest payloads of each event. For '*' and patterns,
+   * the payloads of every matching sticky event are replayed in emission order.
+   */
+  replay?: ReplayOption;
+}
+
+/**
+ * Describes the dispatch during which a handler failed.
+ */
+export interface HandlerErrorContext<T extends EventMap> {
+  /** The event being emitted. */
+  eventName: keyof T;
+  /** The handler that threw or rejected, as it was passed to `on` or `once`, or the middleware whose chain rejected. */
+  handler: (...args: any[]) => void | Promise<void>;
+  /** The payload the handler was called with. */
+  data: T[keyof T];
+}
+
+/**
+ * Callback receiving handler failures. See the `onHandlerError` constructor option.
+ */
+export type HandlerErrorCallback<T extends EventMap> = (error: HandlerError, context: HandlerErrorContext<T>) => void;
+
+/**
+ * Configuration options for TypeSafeEmitter.
+ */
+export interface TypeSafeEmitterOptions<T extends EventMap> {
+  /**
+   * If true, the emitter will throw NoListenersError when `emit` is called for an event
+   * with no listeners. Defaults to false.
+   */
+  throwOnNoListeners?: boolean;
+  /**
+   * If true, emitting an 'error' event with no listeners throws like Node's EventEmitter: the
+   * payload itself if it is an Error, otherwise an UnhandledErrorEventError. Takes precedence
+   * over `throwOnNoListeners` for 'error' events. Defaults to false.
+   */
+  throwOnUnhandledError?: boolean;
+  /**
+   * Receives every error thrown by a handler during `emit`, wrapped in a HandlerError,
+   * including rejections of async handlers. When set, `emit` keeps calling the remaining
+   * handlers and does not throw handler errors itself.
+   */
+  onHandlerError?: HandlerErrorCallback<T>;
+  /**
+   * If true and `onHandlerError` is not set, `emit` calls every handler even if some throw,
+   * then throws an AggregateError of HandlerErrors. Defaults to false, in which case `emit`
+   * stops at the first failing handler and throws its HandlerError.
+   */
+  aggregateErrors?: boolean;
+  /**
+   * Runtime validators for event payloads, checked by `emit` and `emitAsync` before middleware
+   * and listeners run. Each one is a type guard or an object with a `parse` method.
+   */
+  validators?: PayloadValidators<T>;
+  /**
+   * When the validators run: 'always' (default), 'development' (unless NODE_ENV is 'production')
+   * or 'never'.
+   */
+  validation?: ValidationMode;
+  /**
+   * Maximum number of listeners per event before a PossibleListenerLeak is raised. For a concrete
+   * event, the '*' and pattern listeners that match it count too. 0 or undefined means no limit.
+   * Setting any limit also enables detection of a handler added again under a different wrapper.
+   */
+  maxListeners?: number;
+  /**
+   * Limits for individual event names, '*' or patterns, overriding `maxListeners`.
+   */
+  maxListenersPerEvent?: Partial<Record<keyof T | WildcardPattern, number>>;
+  /**
+   * Receives PossibleListenerLeak warnings, at most once per event and reason.
+   * Defaults to `console.warn`.
+   */
+  onPossibleLeak?: (warning: PossibleListenerLeak) => void;
+  /**
+   * If true, `on` and `once` throw the PossibleListenerLeak instead of adding the listener.
+   * Defaults to false.
+   */
+  strictMaxListeners?: boolean;
+  /**
+   * Sticky events and how many of their latest payloads to keep (`true` keeps one).
+   * Listeners subscribed with `replay` receive the cached payloads right away.
+   */
+  sticky?: StickyConfig<T>;
+  /**
+   * Records delivered events in a ring buffer, for `history` and `exportHistory`.
+   * `true` uses the defaults: the last 100 events, payloads stored by reference.
+   */
+  history?: boolean | HistoryOptions;
+  /**
+   * The timers used by the `debounce`, `throttle`, `sample` and buffer options of `on`.
+   * Defaults to the global `setTimeout` and `clearTimeout`.
+   */
+  clock?: Clock;
+}
+
+/**
+ * Options accepted by `waitFor`.
+ */
+export interface WaitForOptions<D> {
+  /** Only payloads for which this returns true settle the promise. */
+  filter?: (data: D) => boolean;
+  /** Milliseconds to wait before rejecting with a WaitForTimeoutError. */
+  timeout?: number;
+  /** Aborting the signal rejects the promise with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by `waitForAny` and `waitForAll`.
+ */
+export interface WaitForManyOptions<T, K extends keyof T> {
+  /** Only events for which this returns true count. Narrow `data` by checking `eventName`. */
+  filter?: (...args: PatternHandlerArgs<T, K>) => boolean;
+  /** Milliseconds to wait before rejecting with a WaitForTimeoutError. */
+  timeout?: number;
+  /** Aborting the signal rejects the promise with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * The value `waitForAny` resolves with: the event that arrived first and its payload.
+ */
+export type WaitForAnyResult<T, K extends keyof T> = K extends keyof T
+  ? { eventName: K; data: T[K] }
+  : never;
+
+/**
+ * The value `waitForAll` resolves with: the payloads in the same order as the event names.
+ */
+export type WaitForAllResult<T, K extends readonly (keyof T)[]> = {
+  -readonly [I in keyof K]: T[K[I]];
+};
 
 /**
  * Type definition for event map structure
@@ -22,22 +290,72 @@ export type EventMap = {
 
 /**
  * TypeSafeEmitter class that provides type-safe event handling
+ * `R` optionally maps event names of `T` to the responses of `request` and `handle`.
  */
-export class TypeSafeEmitter<T extends EventMap> {
-  private handlers: {
-    [K in keyof T]?: Set<EventHandler<T[K]>>;
-  } = {};
-  private starHandlers: Set<WildcardEventHandler> = new Set();
-  private wildcardHandlers: Map<string, Set<WildcardEventHandler>> = new Map();
+export class TypeSafeEmitter<T extends EventMap, R extends ResponseMap<T> = {}> {
+  // A Map rather than an object, so number keys stay numbers and do not collide with strings.
+  private handlers: Map<PropertyKey, ListenerList> = new Map();
+  private starHandlers: ListenerList = new ListenerList();
+  private wildcardHandlers: Map<string, ListenerList> = new Map();
+  private patternIndex: PatternIndex = new PatternIndex();
   private throwOnNoListeners: boolean;
+  private throwOnUnhandledError: boolean;
+  private onHandlerError?: HandlerErrorCallback<T>;
+  private aggregateErrors: boolean;
+  private nextOrder = 0;
+  private nextPrependOrder = -1;
+  private middleware: MiddlewareEntry[] = [];
+  private validators?: PayloadValidators<T>;
+  private maxListeners: number;
+  private maxListenersPerEvent: Map<PropertyKey, number>;
+  private onPossibleLeak: (warning: PossibleListenerLeak) => void;
+  private strictMaxListeners: boolean;
+  private reportedLeaks: Map<PropertyKey, Set<PossibleListenerLeak['reason']>> = new Map();
+  private nextSubscription = 0;
+  private hasLocalListeners = false;
+  private sticky?: StickyCache;
+  private recorder?: HistoryRecorder;
+  private responders: Map<PropertyKey, Responder<unknown, unknown>> = new Map();
+  private clock: Clock;
 
   /**
    * Creates an instance of TypeSafeEmitter.
    * @param options Configuration options for the emitter.
    * @param options.throwOnNoListeners If true, the emitter will throw NoListenersError when `emit` is called for an event with no listeners. Defaults to false.
+   * @param options.throwOnUnhandledError If true, emitting an 'error' event with no listeners throws its Error payload, as Node does. Defaults to false.
+   * @param options.onHandlerError Receives handler failures during `emit` instead of having them thrown. Async rejections are routed here too.
+   * @param options.aggregateErrors If true, `emit` runs every handler and throws an AggregateError of all failures. Defaults to false.
+   * @param options.validators Runtime payload validators by event name, as type guards or `{ parse }` objects.
+   * @param options.validation When validators run: 'always' (default), 'development' or 'never'.
+   * @param options.maxListeners Listener count per event above which a PossibleListenerLeak is raised. 0 or undefined means no limit.
+   * @param options.maxListenersPerEvent Limits for individual event names, '*' or patterns, overriding `maxListeners`.
+   * @param options.onPossibleLeak Receives PossibleListenerLeak warnings. Defaults to `console.warn`.
+   * @param options.strictMaxListeners If true, `on` and `once` throw the PossibleListenerLeak instead. Defaults to false.
+   * @param options.sticky Sticky events and how many of their latest payloads to keep for replay.
+   * @param options.history Records delivered events for `history`: `true`, or `{ size, payload }`.
+   * @param options.clock The timers used by the timing options of `on`. Defaults to the global timers.
+   * @throws {RangeError} If a sticky count or the history size is not a positive integer.
    */
-  constructor(options?: { throwOnNoListeners?: boolean }) {
+  constructor(options?: TypeSafeEmitterOptions<T>) {
     this.throwOnNoListeners = options?.throwOnNoListeners ?? false;
+    this.throwOnUnhandledError = options?.throwOnUnhandledError ?? false;
+    this.onHandlerError = options?.onHandlerError;
+    this.aggregateErrors = options?.aggregateErrors ?? false;
+    if (options?.validators && isValidationEnabled(options.validation ?? 'always')) {
+      this.validators = options.validators;
+    }
+    this.maxListeners = options?.maxListeners ?? 0;
+    const perEvent: Record<PropertyKey, number | undefined> = options?.maxListenersPerEvent ?? {};
+    this.maxListenersPerEvent = new Map(Reflect.ownKeys(perEvent).map(key => [key, perEvent[key] ?? 0]));
+    this.onPossibleLeak = options?.onPossibleLeak ?? (warning => console.warn(warning));
+    this.strictMaxListeners = options?.strictMaxListeners ?? false;
+    if (options?.sticky) {
+      this.sticky = new StickyCache(options.sticky);
+    }
+    this.clock = options?.clock ?? systemClock;
+    if (options?.history) {
+      this.recorder = new HistoryRecorder(options.history === true ? {} : options.history);
+    }
   }
 
   /**
@@ -51,51 +369,228 @@ export class TypeSafeEmitter<T extends EventMap> {
       throw new InvalidEventNameError('Event name cannot be an empty string.');
     }
     // Specific validation for non-wildcard operations if needed
-    if (!allowWildcards && typeof eventName === 'string' && eventName.includes('*')) {
+    if (!allowWildcards && isPattern(eventName)) {
         throw new InvalidEventNameError(`Wildcard pattern "${eventName}" is not allowed for this operation.`);
     }
   }
 
   /**
    * Subscribe to an event
-   * @param eventName The name of the event to subscribe to. Cannot be an empty string. Wildcards '*' and patterns like 'event.*' or '*.action' are supported.
+   * @param eventName The name of the event to subscribe to. Cannot be an empty string. Wildcards '*' and patterns like 'event.*', '*.action' or 'audit.**' are supported.
+   * In a pattern, '*' matches exactly one dot-separated segment and '**' matches any number of segments.
    * @param handler The callback function to handle the event
+   * @param options Optional listener options.
+   * @param options.priority Listeners with a higher priority run first, across exact, '*' and pattern listeners. Defaults to 0.
+   * @param options.prepend If true, run before the listeners already registered with the same priority. Defaults to false.
+   * @param options.signal Aborting the signal removes the listener.
+   * @param options.replay Deliver the cached payloads of sticky events right away: `true` for all of them, a number for at most that many per event.
+   * @param options.debounce Deliver the latest payload once none has arrived for this many milliseconds.
+   * @param options.throttle `{ ms, leading, trailing }`: deliver at most one payload per `ms` window, at its start and/or its end.
+   * @param options.sample Deliver the latest payload at the end of each period of this many milliseconds in which one arrived.
+   * @param options.bufferTime With `bufferCount`, makes the handler receive arrays of payloads, delivered this many milliseconds after the first one arrived.
+   * @param options.bufferCount Deliver the buffered payloads once this many have arrived.
+   * @param options.flush With a timing option, deliver waiting payloads when the listener is removed instead of dropping them.
    * @returns An unsubscribe function
-   * @throws {InvalidEventNameError} If the eventName is an empty string.
+   * @throws {InvalidEventNameError} If the eventName is an empty string or a malformed pattern.
+   * @throws {HandlerError} If the handler throws while cached payloads are replayed. The listener is removed first.
+   * @throws {TypeError} If more than one timing operator is given.
+   * @throws {RangeError} If a timing duration or `bufferCount` is invalid.
    */
   on<K extends keyof T | string>(
-    eventName: K,
-    handler: K extends keyof T ? EventHandler<T[K]> : WildcardEventHandler
+    eventName: SubscribableName<T, K>,
+    handler: BufferedHandlerFor<T, K>,
+    options: ListenerOptions & BufferOptions
+  ): () => void;
+  on<K extends keyof T | string>(
+    eventName: SubscribableName<T, K>,
+    handler: HandlerFor<T, K>,
+    options?: ListenerOptions & TimingOptions
+  ): () => void;
+  on(eventName: keyof T | string, handler: AnyHandler, options?: ListenerOptions & TimingOptions & Partial<BufferOptions>): () => void {
+    if (!hasTimingOperator(options)) {
+      return this.addListener(eventName, handler, handler, options);
+    }
+    this.validateEventName(eventName);
+    const wildcard = eventName === '*' || isPattern(eventName);
+    // Payloads delivered from a timer or a flush are not part of any emit, so their errors
+    // go to onHandlerError, or are thrown where they happen.
+    const timed = createTimedHandler(options!, wildcard, handler, this.clock, (err, name = eventName, data) => {
+      const error = new HandlerError(name, err);
+      if (!this.onHandlerError) {
+        throw error;
+      }
+      this.onHandlerError(error, { eventName: name as keyof T, handler, data: data as T[keyof T] });
+    });
+    return this.addListener(eventName, timed.handler, handler, options, undefined, timed.stop);
+  }
+
+  /**
+   * Registers a listener for an event name, '*' or a pattern.
+   * @param eventName The event name or pattern.
+   * @param handler The function to call on dispatch.
+   * @param original The handler as the user passed it; differs from `handler` for `once`.
+   * @param options Listener options.
+   * @param local The scope a local listener belongs to. Undefined for ordinary listeners.
+   * @param cleanup Called once when the listener is removed.
+   * @param once True for `once` listeners, which replay only the newest cached payload.
+   */
+  private addListener(
+    eventName: keyof T | string,
+    handler: AnyHandler,
+    original: AnyHandler,
+    options?: ListenerOptions,
+    local?: ScopeToken,
+    cleanup?: () => void,
+    once = false
   ): () => void {
     this.validateEventName(eventName);
 
-    if (eventName === '*') {
-      this.starHandlers.add(handler as WildcardEventHandler);
-      return () => this.off(eventName, handler);
+    const wildcard = eventName === '*' || isPattern(eventName);
+    const listener: Listener = {
+      handler,
+      original,
+      wildcard,
+      priority: options?.priority ?? 0,
+      order: options?.prepend ? this.nextPrependOrder-- : this.nextOrder++,
+      active: true,
+      trace: this.detectsLeaks() ? { sequence: this.nextSubscription++, stack: captureStack() } : undefined,
+      scope: local,
+    };
+
+    const unsubscribe = () => this.removeListener(eventName, handler);
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      return unsubscribe;
+    }
+
+    if (this.detectsLeaks()) {
+      this.checkForLeak(eventName, listener);
     }
 
-    if (typeof eventName === 'string' && eventName.includes('*')) {
+    let list: ListenerList;
+    if (eventName === '*') {
+      list = this.starHandlers;
+    } else if (isPattern(eventName)) {
       if (!this.wildcardHandlers.has(eventName)) {
-        this.wildcardHandlers.set(eventName, new Set());
+        // Compiling first means a malformed pattern throws before anything is registered.
+        this.patternIndex.add(eventName);
+        this.wildcardHandlers.set(eventName, new ListenerList());
+      }
+      list = this.wildcardHandlers.get(eventName)!;
+    } else {
+      // Anything that is neither '*' nor a pattern is a specific event, whether or not
+      // the compiler could prove it is a key of T.
+      let exact = this.handlers.get(eventName);
+      if (!exact) {
+        exact = new ListenerList();
+        this.handlers.set(eventName, exact);
       }
-      this.wildcardHandlers.get(eventName)!.add(handler as WildcardEventHandler);
-      return () => this.off(eventName, handler);
+      list = exact;
     }
 
-    const event = eventName as keyof T;
-    // For specific events, we might not want to allow patterns that weren't caught by the initial wildcard checks.
-    // However, 'K extends keyof T' should handle this. If eventName is not in T, it's a string handled by wildcards.
-    // If it is in T, it's a specific event.
+    if (local) {
+      this.hasLocalListeners = true;
+    }
+    if (!list.add(listener)) {
+      return unsubscribe;
+    }
+    signal?.addEventListener('abort', unsubscribe, { once: true });
+    if (signal || cleanup) {
+      listener.detach = () => {
+        signal?.removeEventListener('abort', unsubscribe);
+        cleanup?.();
+      };
+    }
+    if (options?.replay && this.sticky) {
+      this.replaySticky(eventName, listener, options.replay, once);
+    }
+
+    return unsubscribe;
+  }
 
-    if (!this.handlers[event]) {
-      this.handlers[event] = new Set();
+  /**
+   * Calls a new listener with the cached payloads of the sticky events it subscribes to.
+   * Failures are handled as in `emit`, except that a thrown error also removes the listener,
+   * since `on` throws before the caller receives the unsubscribe function.
+   * @param eventName The event name, '*' or pattern the listener was registered with.
+   * @param listener The listener just added.
+   * @param replay The listener's `replay` option.
+   * @param once True for a `once` listener, which receives the newest payload it can see.
+   */
+  private replaySticky(eventName: keyof T | string, listener: Listener, replay: ReplayOption, once: boolean): void {
+    const entries = this.sticky!.replayFor(eventName, replay);
+    for (const entry of once ? [...entries].reverse() : entries) {
+      // A `once` listener removes itself after the first payload.
+      if (!listener.active) {
+        return;
+      }
+      if (listener.scope && !isWithinScope(entry.origin, listener.scope)) {
+        continue;
+      }
+      const name = entry.eventName as keyof T;
+      const data = entry.data as T[keyof T];
+      try {
+        const result = invokeListener(listener, name, data);
+        if (result instanceof Promise && this.onHandlerError) {
+          result.catch(err => this.reportHandlerError(err, listener, name, data));
+        }
+      } catch (err) {
+        if (!this.onHandlerError) {
+          this.removeListener(eventName, listener.handler);
+          throw new HandlerError(name, err);
+        }
+        this.reportHandlerError(err, listener, name, data);
+      }
     }
+  }
 
-    this.handlers[event]!.add(handler as EventHandler<T[keyof T]>);
+  /**
+   * Returns true if any listener limit is configured.
+   */
+  private detectsLeaks(): boolean {
+    return this.maxListeners > 0 || this.maxListenersPerEvent.size > 0;
+  }
 
-    return () => {
-      this.off(event, handler as any); // Use 'as any' to bypass complex type checking here
-    };
+  /**
+   * Raises a PossibleListenerLeak if adding a listener would exceed the event's limit, or if
+   * its handler is already registered for the event under a different wrapper.
+   * @param eventName The event name, '*' or pattern being subscribed to.
+   * @param listener The listener about to be added.
+   * @throws {PossibleListenerLeak} If `strictMaxListeners` is true and a leak is detected.
+   */
+  private checkForLeak(eventName: keyof T | string, listener: Listener): void {
+    const registered = this.registeredList(eventName);
+    if (registered?.has(listener.handler)) {
+      // Adding the same function twice is a no-op, not a leak.
+      return;
+    }
+
+    const configured = this.maxListenersPerEvent.get(configKey(eventName)) ?? this.maxListeners;
+    const limit = configured > 0 ? configured : Infinity;
+    const current = this.listenersFor(eventName);
+    const count = current.length + 1;
+    let reason: PossibleListenerLeak['reason'];
+    if (registered?.toArray().some(existing => existing.original === listener.original)) {
+      reason = 'duplicate';
+    } else if (count > limit) {
+      reason = 'limit';
+    } else {
+      return;
+    }
+
+    const warning = new PossibleListenerLeak(eventName, reason, count, limit, recentStacks(current, listener.trace));
+    if (this.strictMaxListeners) {
+      throw warning;
+    }
+    let reported = this.reportedLeaks.get(eventName);
+    if (!reported) {
+      reported = new Set();
+      this.reportedLeaks.set(eventName, reported);
+    }
+    if (!reported.has(reason)) {
+      reported.add(reason);
+      this.onPossibleLeak(warning);
+    }
   }
 
   /**
@@ -105,43 +600,298 @@ export class TypeSafeEmitter<T extends EventMap> {
    * @throws {InvalidEventNameError} If the eventName is an empty string.
    */
   off<K extends keyof T | string>(
-    eventName: K,
-    handler: K extends keyof T ? EventHandler<T[K]> : WildcardEventHandler
+    eventName: SubscribableName<T, K>,
+    handler: HandlerFor<T, K>
   ): void {
+    this.removeListener(eventName, handler as AnyHandler);
+  }
+
+  /**
+   * Removes a listener registered for an event name, '*' or a pattern. This is `off` without
+   * the typing of its arguments.
+   */
+  private removeListener(eventName: keyof T | string, handler: AnyHandler): void {
     this.validateEventName(eventName);
 
     if (eventName === '*') {
-      this.starHandlers.delete(handler as WildcardEventHandler);
+      this.starHandlers.delete(handler);
       return;
     }
 
-    if (typeof eventName === 'string' && eventName.includes('*')) {
+    if (isPattern(eventName)) {
       const handlers = this.wildcardHandlers.get(eventName);
       if (handlers) {
-        handlers.delete(handler as WildcardEventHandler);
+        handlers.delete(handler);
         if (handlers.size === 0) {
           this.wildcardHandlers.delete(eventName);
+          this.patternIndex.remove(eventName);
         }
       }
       return;
     }
 
-    const event = eventName as keyof T;
-    const handlers = this.handlers[event];
+    const handlers = this.handlers.get(eventName);
     if (handlers) {
-      handlers.delete(handler as EventHandler<T[keyof T]>);
+      handlers.delete(handler);
       if (handlers.size === 0) {
-        delete this.handlers[event];
+        this.handlers.delete(eventName);
+      }
+    }
+  }
+
+  /**
+   * Returns every listener that should run for an event, in execution order:
+   * descending priority, then registration order, regardless of whether the
+   * listener was registered for the exact event, '*' or a pattern.
+   * Patterns are looked up in the precompiled index rather than tested one by one.
+   * Local listeners of scopes are only included for events emitted through their scope.
+   * @param eventName The concrete event name being emitted.
+   * @param origin The scope the event is emitted through, if any.
+   */
+  private collectListeners(eventName: keyof T, origin?: ScopeToken): Listener[] {
+    const lists: ListenerList[] = [];
+
+    const exactHandlers = this.handlers.get(eventName);
+    if (exactHandlers && exactHandlers.size > 0) {
+      lists.push(exactHandlers);
+    }
+
+    if (this.starHandlers.size > 0) {
+      lists.push(this.starHandlers);
+    }
+
+    if (typeof eventName === 'string' && this.patternIndex.size > 0) {
+      for (const pattern of this.patternIndex.match(eventName)) {
+        const handlers = this.wildcardHandlers.get(pattern);
+        if (handlers && handlers.size > 0) {
+          lists.push(handlers);
+        }
+      }
+    }
+
+    if (lists.length === 0) {
+      return [];
+    }
+    const listeners = mergeListeners(lists);
+    return this.hasLocalListeners
+      ? listeners.filter(listener => !listener.scope || isWithinScope(origin, listener.scope))
+      : listeners;
+  }
+
+  /**
+   * Returns the listeners for an event name, '*' or a pattern, in execution order.
+   * For a concrete event this includes the '*' and pattern listeners that match it; for '*'
+   * or a pattern it is the listeners registered with that exact string.
+   */
+  private listenersFor(eventName: keyof T | string): Listener[] {
+    if (eventName === '*' || isPattern(eventName)) {
+      return this.registeredList(eventName)?.toArray() ?? [];
+    }
+    return this.collectListeners(eventName as keyof T);
+  }
+
+  /**
+   * Returns the list holding the listeners registered with exactly this event name, '*' or pattern.
+   */
+  private registeredList(eventName: keyof T | string): ListenerList | undefined {
+    if (eventName === '*') {
+      return this.starHandlers;
+    }
+    if (isPattern(eventName)) {
+      return this.wildcardHandlers.get(eventName);
+    }
+    return this.handlers.get(eventName);
+  }
+
+  /**
+   * Count listeners.
+   * @param eventName Optional event name, '*' or pattern. For a concrete event, the count includes the '*' and pattern listeners that would run when it is emitted. For '*' or a pattern, only the listeners registered with that exact string are counted. If omitted, every listener is counted.
+   * @returns The number of listeners.
+   * @throws {InvalidEventNameError} If the eventName is an empty string.
+   */
+  listenerCount<K extends keyof T | string>(eventName?: K): number {
+    if (eventName === undefined) {
+      let count = this.starHandlers.size;
+      this.handlers.forEach(handlers => { count += handlers.size; });
+      this.wildcardHandlers.forEach(handlers => { count += handlers.size; });
+      return count;
+    }
+    this.validateEventName(eventName);
+    return this.listenersFor(eventName).length;
+  }
+
+  /**
+   * Check whether emitting an event would call any listener, e.g. before emitting with `throwOnNoListeners`.
+   * @param eventName The event name, '*' or pattern, counted as in `listenerCount`.
+   * @returns True if at least one listener is registered.
+   * @throws {InvalidEventNameError} If the eventName is an empty string.
+   */
+  hasListeners<K extends keyof T | string>(eventName: K): boolean {
+    return this.listenerCount(eventName) > 0;
+  }
+
+  /**
+   * Get the listeners for an event, in the order they run.
+   * @param eventName The event name, '*' or pattern, resolved as in `listenerCount`.
+   * @returns The handlers as they were passed to `on` or `once`.
+   * @throws {InvalidEventNameError} If the eventName is an empty string.
+   */
+  listeners<K extends keyof T | string>(eventName: K): Array<(...args: any[]) => void | Promise<void>> {
+    this.validateEventName(eventName);
+    return this.listenersFor(eventName).map(listener => listener.original);
+  }
+
+  /**
+   * Get the names of the events with listeners registered for them directly.
+   * '*' and pattern subscriptions are reported by `patterns` instead.
+   * @returns The event names.
+   */
+  eventNames(): Array<keyof T> {
+    return Array.from(this.handlers.keys()) as Array<keyof T>;
+  }
+
+  /**
+   * Get the wildcard patterns with listeners, including '*' if it has any.
+   * @returns The patterns, '*' first, then in the order they were first subscribed to.
+   */
+  patterns(): string[] {
+    const patterns = Array.from(this.wildcardHandlers.keys());
+    return this.starHandlers.size > 0 ? ['*', ...patterns] : patterns;
+  }
+
+  /**
+   * Create a scope over the events under a prefix. Names passed to the scope are relative to
+   * the prefix, so `scope('user').emit('created', data)` emits `user.created` on this emitter,
+   * where its exact, '*' and pattern listeners all receive it. Listeners added through the scope
+   * with `{ local: true }` only run for events emitted through the scope. `dispose` on the scope
+   * removes everything subscribed through it.
+   * @param prefix The prefix, without the trailing '.'. May contain dots, e.g. 'app.user'.
+   * @returns A scope typed with the events of `T` under the prefix.
+   * @throws {InvalidEventNameError} If the prefix is empty or contains a wildcard.
+   */
+  scope<P extends string>(prefix: P): EmitterScope<ScopedEvents<T, P>> {
+    validateScopePrefix(prefix);
+    return new EmitterScope<ScopedEvents<T, P>>({
+      subscribe: (eventName, handler, original, options, local, once) => this.addListener(eventName, handler, original, options, local, undefined, once),
+      isSubscribed: (eventName, handler) => this.registeredList(eventName)?.has(handler) ?? false,
+      emit: (eventName, data, origin) => this.emitFrom(origin, eventName, data as T[keyof T]),
+      emitAsync: (eventName, data, options, origin) => this.emitAsyncFrom(origin, eventName, data as T[keyof T], options),
+    }, prefix);
+  }
+
+  /**
+   * Forward events from this emitter to another one.
+   * Forwarded events are emitted on the target with `emit`. In a bidirectional bridge
+   * (`a.pipe(b)` and `b.pipe(a)`), an event is not forwarded back into an emitter it was
+   * already emitted on, so nothing loops. Events that handlers emit are new emissions and are forwarded.
+   * @param target The emitter to forward to.
+   * @param options Which events to forward and how to map them.
+   * @param options.events Event names to forward.
+   * @param options.pattern A wildcard pattern of events to forward. Without `events` and `pattern`, every event is forwarded.
+   * @param options.map `(eventName, data) => [newName, newData]`, typed against the target's event map. Return undefined to drop an event. Required unless every piped event exists in the target with a compatible payload.
+   * @param options.signal Aborting the signal stops forwarding.
+   * @returns A function that stops forwarding.
+   * @throws {InvalidEventNameError} If an event name is an empty string or the pattern is malformed.
+   */
+  pipe<U extends EventMap, K extends keyof T = never, P extends string = never>(
+    target: TypeSafeEmitter<U, any>,
+    ...[options]: PipeArgs<T, U, K, P>
+  ): () => void {
+    const { events, pattern, map, signal } = (options ?? {}) as {
+      events?: readonly (keyof T)[];
+      pattern?: string;
+      map?: PipeMapper<any, U, any>;
+      signal?: AbortSignal;
+    };
+    const forward = (eventName: keyof T, data: unknown) => {
+      const entry = (map ? map(eventName, data) : [eventName, data]) as [keyof U, U[keyof U]] | undefined;
+      if (entry) {
+        forwardEvent(this, [eventName, data], target, entry, () => target.emit(entry[0], entry[1]));
       }
+    };
+
+    const stops: Array<() => void> = [];
+    const listenerOptions = { signal };
+    // The pattern is subscribed first so that a malformed pattern throws before anything is registered.
+    if (pattern !== undefined) {
+      const listed = new Set(events);
+      const onMatch = (eventName: keyof T, data: unknown) => {
+        // Events that are also listed are forwarded by their own listener.
+        if (!listed.has(eventName)) {
+          forward(eventName, data);
+        }
+      };
+      stops.push(this.addListener(pattern, onMatch, onMatch, listenerOptions));
+    }
+    events?.forEach(eventName => {
+      const onEvent = (data: unknown) => forward(eventName, data);
+      stops.push(this.addListener(eventName, onEvent, onEvent, listenerOptions));
+    });
+    if (pattern === undefined && events === undefined) {
+      stops.push(this.addListener('*', forward, forward, listenerOptions));
     }
+
+    return () => stops.forEach(stop => stop());
+  }
+
+  /**
+   * Add a middleware that runs before listeners are called, in both `emit` and `emitAsync`.
+   * Middleware runs in registration order. Each one can read and replace `ctx.data`, share
+   * values through `ctx.metadata`, wrap `next()` to observe or catch delivery, or stop the
+   * event by not calling `next()`. In `emit`, a middleware that calls `next()` asynchronously
+   * delays delivery past the return of `emit`, and its errors are not thrown by `emit`: a
+   * rejection of the chain goes to `onHandlerError`, with the first middleware as `handler`,
+   * or is left unhandled.
+   * @param events Optional event name, pattern or list of them the middleware is limited to. '*' means every event.
+   * @param middleware The middleware function `(ctx, next) => void | Promise<void>`.
+   * @returns A function that removes the middleware.
+   * @throws {InvalidEventNameError} If an event name is an empty string, a pattern is malformed, or the list is empty.
+   */
+  use(middleware: Middleware<T>): () => void;
+  use<K extends keyof T | string>(
+    events: SubscribableName<T, K> | readonly SubscribableName<T, K>[],
+    middleware: Middleware<T, MiddlewareEventNames<T, K>>
+  ): () => void;
+  use(eventsOrMiddleware: PropertyKey | readonly PropertyKey[] | Middleware<T>, middleware?: Middleware<any>): () => void {
+    let entry: MiddlewareEntry;
+    if (typeof eventsOrMiddleware === 'function') {
+      entry = createMiddlewareEntry(eventsOrMiddleware as Middleware<any>);
+    } else {
+      const selectors = Array.isArray(eventsOrMiddleware) ? eventsOrMiddleware : [eventsOrMiddleware];
+      if (selectors.length === 0) {
+        throw new InvalidEventNameError('At least one event name is required.');
+      }
+      selectors.forEach(selector => this.validateEventName(selector));
+      entry = createMiddlewareEntry(middleware!, selectors);
+    }
+
+    this.middleware = [...this.middleware, entry];
+    return () => {
+      this.middleware = this.middleware.filter(existing => existing !== entry);
+    };
+  }
+
+  /**
+   * Returns the middleware functions that apply to an event, in registration order.
+   */
+  private collectMiddleware(eventName: keyof T): Middleware<any>[] {
+    if (this.middleware.length === 0) {
+      return [];
+    }
+    return this.middleware.filter(entry => entry.appliesTo(eventName)).map(entry => entry.middleware);
   }
 
   /**
    * Emit an event with data
+   * Middleware added with `use` runs first; errors it throws are thrown as they are.
    * @param eventName The name of the event to emit. Cannot be an empty string if it's a string type.
    * @param data The data to pass to event handlers
    * @throws {InvalidEventNameError} If the eventName is an empty string.
+   * @throws {HandlerError} If a handler throws and neither `onHandlerError` nor `aggregateErrors` is set.
+   * @throws {AggregateError} If `aggregateErrors` is true and one or more handlers throw. Its `errors` are HandlerErrors.
    * @throws {NoListenersError} If `throwOnNoListeners` is true and no listeners are found for the event.
+   * @throws {UnhandledErrorEventError} If `throwOnUnhandledError` is true and an 'error' event whose payload is not an Error has no listeners. An Error payload is thrown itself.
+   * @throws {InvalidPayloadError} If a validator is configured for the event and rejects the payload.
    */
   emit<K extends keyof T>(eventName: K, data: T[K]): void {
     // Event name validation for emit should not allow wildcards as eventName must be a key of T.
@@ -149,193 +899,487 @@ export class TypeSafeEmitter<T extends EventMap> {
     // If K is a string literal type from EventMap, it's fine.
     // If K is `string` (e.g. if EventMap is `[key: string]: any`), then it could be empty.
     // The `keyof T` constraint helps, but if T allows arbitrary string keys, validation is good.
+    this.emitFrom(undefined, eventName, data);
+  }
+
+  /**
+   * Implements `emit` for the emitter itself and for its scopes.
+   * @param origin The scope the event is emitted through, whose local listeners may run. Undefined for the emitter itself.
+   */
+  private emitFrom<K extends keyof T>(origin: ScopeToken | undefined, eventName: K, data: T[K]): void {
     this.validateEventName(eventName, false); // Do not allow wildcards like '*' or 'foo.*' as actual event names to emit
+    data = this.validatePayload(eventName, data);
 
-    const eventNameStr = eventName as string;
-    let listenersFound = false;
+    const middleware = this.collectMiddleware(eventName);
+    if (middleware.length === 0) {
+      this.deliver(origin, eventName, data);
+      return;
+    }
+    const ctx = { eventName, data, metadata: {} };
+    const result = runMiddleware(middleware, ctx as EmitContext<any>, () => this.deliver(origin, eventName, ctx.data, isHandledExternally(ctx as EmitContext<any>)));
+    // An async chain settles after emit has returned, so its failures can only be reported.
+    // Without onHandlerError they stay unhandled rejections, like those of async handlers.
+    if (result instanceof Promise && this.onHandlerError) {
+      result.catch(err => {
+        const error = err instanceof HandlerError ? err : new HandlerError(eventName, err);
+        this.onHandlerError!(error, { eventName, handler: middleware[0], data: ctx.data });
+      });
+    }
+  }
 
-    // Exact match handlers
-    const exactHandlers = this.handlers[eventName];
-    if (exactHandlers && exactHandlers.size > 0) {
-      exactHandlers.forEach(handler => handler(data));
-      listenersFound = true;
+  /**
+   * Calls the listeners of an event synchronously. This is `emit` after middleware has run.
+   * @param handledExternally True if a middleware delivered the event to listeners outside the emitter.
+   */
+  private deliver<K extends keyof T>(origin: ScopeToken | undefined, eventName: K, data: T[K], handledExternally = false): void {
+    this.sticky?.record(eventName, data, origin);
+    const listeners = this.collectListeners(eventName, origin);
+    const errors: HandlerError[] = [];
+    const outcomes = this.recorder && createOutcomes(listeners);
+    if (outcomes) {
+      this.recorder!.record(eventName, data, outcomes);
     }
 
-    // Star handlers
-    if (this.starHandlers.size > 0) {
-      this.starHandlers.forEach(handler => handler(eventNameStr, data));
-      listenersFound = true;
-    }
-
-    // Pattern wildcard handlers
-    this.wildcardHandlers.forEach((handlers, pattern) => {
-      const parts = pattern.split('*');
-      let matches = false;
-      if (parts.length === 1) { // e.g. "user." (should be "user.*" to be a pattern) - this case might be redundant if patterns always have '*'
-        // This logic implies a pattern "user." matches "user.created".
-        // For robustness, patterns should ideally contain '*'.
-        // Assuming "user." means "user.*" effectively, or it's a literal prefix.
-        // Let's stick to the current interpretation: "user." matches if eventNameStr starts with "user."
-        matches = eventNameStr.startsWith(parts[0]);
-      } else if (parts.length === 2) {
-        if (pattern.startsWith('*') && pattern.endsWith('*')) { // e.g. "*.action.*"
-          if (parts[1] === '') { // " * " case, matches any event
-            matches = true;
-          } else {
-            matches = eventNameStr.includes(parts[1]);
-          }
-        } else if (pattern.startsWith('*')) { // e.g. "*.updated"
-          matches = eventNameStr.endsWith(parts[1]);
-        } else if (pattern.endsWith('*')) { // e.g. "user.*"
-          matches = eventNameStr.startsWith(parts[0]);
-        } else { // e.g. "user.*.event"
-          matches = eventNameStr.startsWith(parts[0]) && eventNameStr.endsWith(parts[1]) && eventNameStr.length >= (parts[0].length + parts[1].length);
+    for (let index = 0; index < listeners.length; index++) {
+      const listener = listeners[index];
+      const outcome = outcomes?.[index];
+      // A handler earlier in this emit may have removed this listener.
+      if (!listener.active) {
+        if (outcome) {
+          outcome.status = 'skipped';
         }
+        continue;
       }
-      if (matches && handlers.size > 0) {
-        handlers.forEach(handler => handler(eventNameStr, data));
-        listenersFound = true;
+      const start = performance.now();
+      try {
+        const result = invokeListener(listener, eventName, data);
+        if (result instanceof Promise && this.onHandlerError) {
+          result.catch(err => this.reportHandlerError(err, listener, eventName, data));
+        }
+        if (outcome) {
+          this.trackOutcome(outcome, result, start);
+        }
+      } catch (err) {
+        if (outcome) {
+          Object.assign(outcome, { status: 'rejected', error: err, duration: performance.now() - start });
+        }
+        if (this.onHandlerError) {
+          this.reportHandlerError(err, listener, eventName, data);
+        } else if (this.aggregateErrors) {
+          errors.push(new HandlerError(eventName, err));
+        } else {
+          outcomes?.slice(index + 1).forEach(skipped => { skipped.status = 'skipped'; });
+          throw new HandlerError(eventName, err);
+        }
       }
-    });
+    }
+
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `${errors.length} handler(s) failed for event "${String(eventName)}"`);
+    }
+
+    if (listeners.length === 0 && !handledExternally) {
+      const error = this.unhandledEventError(eventName, data);
+      if (error) {
+        throw error;
+      }
+    }
+  }
 
-    if (!listenersFound && this.throwOnNoListeners) {
-      throw new NoListenersError(eventNameStr);
+  /**
+   * Gets the error to throw for an event that had no listeners, if the options ask for one.
+   */
+  private unhandledEventError<K extends keyof T>(eventName: K, data: T[K]): Error | undefined {
+    if (eventName === 'error' && this.throwOnUnhandledError) {
+      return (data as unknown) instanceof Error ? data : new UnhandledErrorEventError(data);
     }
+    return this.throwOnNoListeners ? new NoListenersError(eventName) : undefined;
+  }
+
+  /**
+   * Records the outcome of a handler called by `emit` in the history, once its result settles.
+   * A rejection not routed to `onHandlerError` is rethrown, so it stays an unhandled rejection.
+   */
+  private trackOutcome(outcome: HandlerOutcome, result: void | Promise<void>, start: number): void {
+    if (!(result instanceof Promise)) {
+      Object.assign(outcome, { status: 'fulfilled', duration: performance.now() - start });
+      return;
+    }
+    result.then(
+      () => {
+        Object.assign(outcome, { status: 'fulfilled', duration: performance.now() - start });
+      },
+      err => {
+        Object.assign(outcome, { status: 'rejected', error: err, duration: performance.now() - start });
+        if (!this.onHandlerError) {
+          throw err;
+        }
+      },
+    );
+  }
+
+  /**
+   * Wraps a handler failure in a HandlerError and passes it to `onHandlerError`.
+   */
+  private reportHandlerError(err: unknown, listener: Listener, eventName: keyof T, data: T[keyof T]): void {
+    this.onHandlerError!(new HandlerError(eventName, err), { eventName, handler: listener.original, data });
+  }
+
+  /**
+   * Runs the configured validator for an event, if any.
+   * @returns The payload to dispatch, which a `{ parse }` validator may have transformed.
+   * @throws {InvalidPayloadError} If the payload is invalid.
+   */
+  private validatePayload<K extends keyof T>(eventName: K, data: T[K]): T[K] {
+    const validator = this.validators?.[eventName];
+    return validator ? validatePayload(eventName, validator, data) : data;
   }
 
   /**
    * Asynchronously emit an event with data and wait for all handlers to complete.
+   * Middleware added with `use` runs first and is awaited. If it stops the event, no handler runs and `outcomes` is empty.
    * @param eventName The name of the event to emit. Cannot be an empty string.
    * @param data The data to pass to event handlers.
-   * @returns A promise that resolves when all handlers have completed, or rejects if any handler throws an error or if `throwOnNoListeners` is true and no listeners are found.
+   * @param options Optional execution strategy. When given, the promise resolves with an EmitAsyncResult.
+   * @param options.mode 'parallel' (default) starts every handler and rejects on the first failure, 'serial' runs handlers one at a time in order, 'allSettled' runs every handler and never rejects because of a handler failure.
+   * @param options.concurrency Maximum number of handlers running at once. Defaults to no limit.
+   * @param options.handlerTimeout Milliseconds each handler may run before it fails with an EmitTimeoutError.
+   * @param options.timeout Milliseconds the whole emission may take before the promise rejects with an EmitTimeoutError.
+   * @returns A promise that resolves when all handlers have completed, or rejects with a HandlerError if any handler throws an error, or with NoListenersError if `throwOnNoListeners` is true and no listeners are found. With `throwOnUnhandledError`, an 'error' event without listeners rejects as `emit` throws.
    * @throws {InvalidEventNameError} If the eventName is an empty string or an invalid pattern for emit.
+   * @throws {InvalidPayloadError} If a validator is configured for the event and rejects the payload.
    */
-  async emitAsync<K extends keyof T>(eventName: K, data: T[K]): Promise<void> {
-    this.validateEventName(eventName, false); // Do not allow wildcards like '*' or 'foo.*' as actual event names to emit
+  emitAsync<K extends keyof T>(eventName: K, data: T[K]): Promise<void>;
+  emitAsync<K extends keyof T>(eventName: K, data: T[K], options: EmitAsyncOptions): Promise<EmitAsyncResult<K>>;
+  emitAsync<K extends keyof T>(eventName: K, data: T[K], options?: EmitAsyncOptions): Promise<EmitAsyncResult<K> | void> {
+    return this.emitAsyncFrom(undefined, eventName, data, options);
+  }
 
-    const eventNameStr = eventName as string;
-    const promises: Promise<void>[] = [];
-    let listenersFound = false;
+  /**
+   * Implements `emitAsync` for the emitter itself and for its scopes.
+   * @param origin The scope the event is emitted through, whose local listeners may run. Undefined for the emitter itself.
+   */
+  private async emitAsyncFrom<K extends keyof T>(
+    origin: ScopeToken | undefined,
+    eventName: K,
+    data: T[K],
+    options?: EmitAsyncOptions
+  ): Promise<EmitAsyncResult<K> | void> {
+    this.validateEventName(eventName, false); // Do not allow wildcards like '*' or 'foo.*' as actual event names to emit
+    data = this.validatePayload(eventName, data);
 
-    // Exact match handlers
-    const exactHandlers = this.handlers[eventName];
-    if (exactHandlers && exactHandlers.size > 0) {
-      exactHandlers.forEach(handler => {
-        try {
-          const result = handler(data);
-          if (result instanceof Promise) {
-            promises.push(result);
-          }
-        } catch (err) {
-          promises.push(Promise.reject(err));
-        }
+    const start = performance.now();
+    let outcomes: HandlerOutcome[] = [];
+    const deliver = (deliveredData: T[K], handledExternally = false): Promise<void> => {
+      this.sticky?.record(eventName, deliveredData, origin);
+      const listeners = this.collectListeners(eventName, origin);
+      const tracked = createOutcomes(listeners);
+      this.recorder?.record(eventName, deliveredData, tracked);
+      const unhandled = listeners.length === 0 && !handledExternally ? this.unhandledEventError(eventName, deliveredData) : undefined;
+      if (unhandled) {
+        return Promise.reject(unhandled);
+      }
+      return dispatchAsync(listeners, eventName, deliveredData, options, tracked).then(result => {
+        outcomes = result;
       });
-      listenersFound = true;
-    }
+    };
 
-    // Star handlers
-    if (this.starHandlers.size > 0) {
-      this.starHandlers.forEach(handler => {
-        try {
-          const result = handler(eventNameStr, data);
-          if (result instanceof Promise) {
-            promises.push(result);
-          }
-        } catch (err) {
-          promises.push(Promise.reject(err));
-        }
+    const middleware = this.collectMiddleware(eventName);
+    if (middleware.length === 0) {
+      await deliver(data);
+    } else {
+      const ctx = { eventName, data, metadata: {} };
+      let delivery: Promise<void> | undefined;
+      let delivered = false;
+      await runMiddleware(middleware, ctx as EmitContext<any>, () => {
+        delivery = deliver(ctx.data, isHandledExternally(ctx as EmitContext<any>)).finally(() => { delivered = true; });
+        return delivery;
       });
-      listenersFound = true;
-    }
-
-    // Pattern wildcard handlers
-    this.wildcardHandlers.forEach((handlers, pattern) => {
-      const parts = pattern.split('*');
-      let matches = false;
-      if (parts.length === 1) {
-        matches = eventNameStr.startsWith(parts[0]);
-      } else if (parts.length === 2) {
-        if (pattern.startsWith('*') && pattern.endsWith('*')) {
-          if (parts[1] === '') { 
-            matches = true;
-          } else {
-            matches = eventNameStr.includes(parts[1]);
-          }
-        } else if (pattern.startsWith('*')) {
-          matches = eventNameStr.endsWith(parts[1]);
-        } else if (pattern.endsWith('*')) {
-          matches = eventNameStr.startsWith(parts[0]);
-        } else {
-          matches = eventNameStr.startsWith(parts[0]) && eventNameStr.endsWith(parts[1]) && eventNameStr.length >= (parts[0].length + parts[1].length);
-        }
-      }
-      if (matches && handlers.size > 0) {
-        handlers.forEach(handler => {
-          try {
-            const result = handler(eventNameStr, data);
-            if (result instanceof Promise) {
-              promises.push(result);
-            }
-          } catch (err) {
-            promises.push(Promise.reject(err));
-          }
-        });
-        listenersFound = true;
+      // A middleware that calls next() without returning or awaiting it finishes first, in which
+      // case delivery is awaited here so that its errors are not lost. Otherwise the middleware
+      // has seen the outcome of next() and may have handled its errors.
+      if (delivery && !delivered) {
+        await delivery;
       }
-    });
-
-    if (!listenersFound && this.throwOnNoListeners) {
-      return Promise.reject(new NoListenersError(eventNameStr));
     }
 
-    return Promise.all(promises).then(() => undefined); // Ensure it resolves with void
+    if (options) {
+      return {
+        eventName,
+        mode: options.mode ?? 'parallel',
+        outcomes,
+        duration: performance.now() - start,
+      };
+    }
   }
 
-
   /**
    * Subscribe to an event for one-time execution.
-   * If the handler is asynchronous, `off` will be called after the promise resolves or rejects.
+   * The handler is removed before it is called, so it is removed even if it throws or rejects.
    * @param eventName The name of the event to subscribe to. Cannot be an empty string.
    * @param handler The callback function to handle the event. Can be synchronous or asynchronous.
+   * @param options Optional listener options, as for `on`. With `replay`, the handler receives the newest cached payload, if any.
    * @returns An unsubscribe function.
    * @throws {InvalidEventNameError} If the eventName is an empty string.
    */
   once<K extends keyof T | string>(
-    eventName: K,
-    handler: K extends keyof T ? EventHandler<T[K]> : WildcardEventHandler
+    eventName: SubscribableName<T, K>,
+    handler: HandlerFor<T, K>,
+    options?: ListenerOptions
   ): () => void {
     this.validateEventName(eventName);
 
-    const wrappedHandler = async (nameOrData: string | T[K], data?: any) => {
+    const wrappedHandler: AnyHandler = (...args) => {
       // Remove the handler immediately to ensure "once" behavior even for rapid sync emits.
-      this.off(eventName, wrappedHandler as any); 
+      // The handler's result is passed through unchanged, so a synchronous throw reaches
+      // emit's error handling and a returned Promise is awaited by emitAsync.
+      this.removeListener(eventName, wrappedHandler);
+      return (handler as AnyHandler)(...args);
+    };
 
-      try {
-        let result: void | Promise<void>;
-        if (typeof eventName === 'string' && (eventName === '*' || eventName.includes('*'))) {
-          // For wildcard, handler expects (eventName, data)
-          result = (handler as WildcardEventHandler)(nameOrData as string, data);
-        } else {
-          // For specific event, handler expects (data)
-          result = (handler as EventHandler<T[K]>)(nameOrData as T[K]);
-        }
-        
-        if (result instanceof Promise) {
-          await result; // Await the promise if one is returned.
-        }
-      } catch (err) {
-        // The handler has already been removed. If it throws, the error should propagate
-        // to the caller of emitAsync if it's an async flow. For sync emit, it's fire-and-forget.
-        // Re-throwing allows Promise.all in emitAsync to catch it.
-        throw err;
+    // The wrapper is registered in place of the handler, while the handler itself is kept
+    // as the listener's original so that error reports point at the user's function.
+    return this.addListener(eventName, wrappedHandler, handler as AnyHandler, options, undefined, undefined, true);
+  }
+
+  /**
+   * Consume an event or pattern as an async stream, e.g. with `for await`.
+   * The subscription starts immediately, so events emitted before the first `next` call are buffered.
+   * Leaving a `for await` loop early (break, return or throw) removes the subscription.
+   * @param eventName The event name or pattern to iterate. Patterns and '*' yield `[eventName, data]` tuples.
+   * @param options Optional buffering, overflow and cancellation options.
+   * @param options.bufferSize Maximum number of events buffered while the consumer is busy. Defaults to no limit.
+   * @param options.overflow What to do when the buffer is full: 'drop-oldest' (default), 'drop-newest' or 'error', which fails the iterator with a BufferOverflowError.
+   * @param options.signal Aborting the signal removes the subscription and fails the iterator with an AbortError.
+   * @returns An async iterator over the event's payloads.
+   * @throws {InvalidEventNameError} If the eventName is an empty string or a malformed pattern.
+   * @throws {RangeError} If `bufferSize` is less than 1.
+   */
+  iterate<K extends keyof T | string>(
+    eventName: SubscribableName<T, K>,
+    options?: IterateOptions
+  ): AsyncIterableIterator<IterateValue<T, K>> {
+    this.validateEventName(eventName);
+
+    const wildcard = eventName === '*' || isPattern(eventName);
+    return createEventIterator<IterateValue<T, K>>(eventName, push => {
+      const handler: AnyHandler = wildcard
+        ? (name, data) => push([name, data] as IterateValue<T, K>)
+        : data => push(data);
+      return this.on(eventName, handler as HandlerFor<T, K>);
+    }, options);
+  }
+
+  /**
+   * Wait for the next occurrence of an event.
+   * The internal listener is removed once the promise settles, whether it resolves or rejects.
+   * @param eventName The name of the event to wait for. Cannot be an empty string or a pattern.
+   * @param options Optional filter, timeout and signal.
+   * @param options.filter Only payloads for which this returns true resolve the promise.
+   * @param options.timeout Milliseconds to wait before rejecting with a WaitForTimeoutError.
+   * @param options.signal Aborting the signal rejects the promise with an AbortError.
+   * @returns A promise that resolves with the event's payload.
+   */
+  waitFor<K extends keyof T>(eventName: K, options?: WaitForOptions<T[K]>): Promise<T[K]> {
+    const filter = options?.filter;
+    return this.waitForEvents([eventName], false, {
+      ...options,
+      filter: filter && ((_: keyof T, data: T[K]) => filter(data)),
+    }).then(([first]) => first.data);
+  }
+
+  /**
+   * Wait for whichever of several events occurs first.
+   * @param eventNames The events to wait for. Cannot be empty, and cannot contain patterns.
+   * @param options Optional filter, timeout and signal, as for `waitFor`. The filter receives `(eventName, data)`.
+   * @returns A promise that resolves with `{ eventName, data }` for the first matching event.
+   */
+  waitForAny<K extends keyof T>(eventNames: readonly K[], options?: WaitForManyOptions<T, K>): Promise<WaitForAnyResult<T, K>> {
+    return this.waitForEvents(eventNames, false, options)
+      .then(([first]) => first as WaitForAnyResult<T, K>);
+  }
+
+  /**
+   * Wait until every one of several events has occurred at least once.
+   * @param eventNames The events to wait for. Cannot contain patterns.
+   * @param options Optional filter, timeout and signal, as for `waitFor`. The filter receives `(eventName, data)`.
+   * @returns A promise that resolves with the first matching payload of each event, in the order of `eventNames`.
+   */
+  waitForAll<const K extends readonly (keyof T)[]>(eventNames: K, options?: WaitForManyOptions<T, K[number]>): Promise<WaitForAllResult<T, K>> {
+    return this.waitForEvents<K[number]>(eventNames, true, options)
+      .then(received => received.map(entry => entry.data) as WaitForAllResult<T, K>);
+  }
+
+  /**
+   * Shared implementation of `waitFor`, `waitForAny` and `waitForAll`.
+   * Every listener it adds is tied to an internal AbortController that is aborted when the
+   * promise settles, so nothing is left subscribed.
+   * @param eventNames The events to wait for.
+   * @param all If true, wait for every event; otherwise for the first one.
+   * @param options Filter, timeout and signal.
+   * @returns The received events, in the order of `eventNames` (only the first one if `all` is false).
+   */
+  private waitForEvents<K extends keyof T>(
+    eventNames: readonly K[],
+    all: boolean,
+    options: WaitForManyOptions<T, K> = {}
+  ): Promise<Array<{ eventName: K; data: T[K] }>> {
+    return new Promise((resolve, reject) => {
+      eventNames.forEach(eventName => this.validateEventName(eventName, false));
+      if (eventNames.length === 0 && !all) {
+        throw new InvalidEventNameError('At least one event name is required.');
+      }
+
+      const { filter, timeout, signal } = options;
+      if (signal?.aborted) {
+        throw new AbortError('Waiting for events was aborted', signal.reason);
+      }
+
+      const received: Array<{ eventName: K; data: T[K] } | undefined> = new Array(eventNames.length);
+      let remaining = eventNames.length;
+      const subscriptions = new AbortController();
+      const onAbort = () => settle(() => reject(new AbortError('Waiting for events was aborted', signal!.reason)));
+      const timer = timeout === undefined
+        ? undefined
+        : setTimeout(() => settle(() => reject(new WaitForTimeoutError([...eventNames], timeout))), timeout);
+
+      function settle(finish: () => void): void {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        subscriptions.abort();
+        finish();
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      eventNames.forEach((eventName, index) => {
+        const handler = (data: T[K]) => {
+          if (received[index] || subscriptions.signal.aborted) {
+            return;
+          }
+          try {
+            if (filter && !filter(...([eventName, data] as PatternHandlerArgs<T, K>))) {
+              return;
+            }
+          } catch (err) {
+            settle(() => reject(err));
+            return;
+          }
+          received[index] = { eventName, data };
+          if (!all) {
+            settle(() => resolve([{ eventName, data }]));
+          } else if (--remaining === 0) {
+            settle(() => resolve(received as Array<{ eventName: K; data: T[K] }>));
+          }
+        };
+        this.addListener(eventName, handler, handler, { signal: subscriptions.signal });
+      });
+
+      if (remaining === 0) {
+        settle(() => resolve([]));
+      }
+    });
+  }
+
+  /**
+   * Register the responder for a request event. Each event has at most one responder.
+   * @param eventName The event to answer. Must have a response type in `R`.
+   * @param responder Receives the payload and an AbortSignal that is aborted when the requester
+   * stops waiting, and returns the response or a promise for it.
+   * @returns A function that removes the responder.
+   * @throws {InvalidEventNameError} If the eventName is an empty string or a pattern.
+   * @throws {DuplicateResponderError} If the event already has a responder.
+   */
+  handle<K extends RequestName<T, R>>(eventName: K, responder: Responder<T[K], R[K]>): () => void {
+    this.validateEventName(eventName, false);
+    if (this.responders.has(eventName)) {
+      throw new DuplicateResponderError(eventName);
+    }
+    this.responders.set(eventName, responder as Responder<unknown, unknown>);
+    return () => {
+      if (this.responders.get(eventName) === responder) {
+        this.responders.delete(eventName);
       }
     };
+  }
+
+  /**
+   * Send a request to the responder registered with `handle` and wait for its response.
+   * The payload is checked by the event's validator, if any. Requests are not delivered to
+   * the event's listeners and do not go through middleware.
+   * @param eventName The event to request. Must have a response type in `R`.
+   * @param data The request payload.
+   * @param options Optional timeout and signal.
+   * @param options.timeout Milliseconds to wait before rejecting with a RequestTimeoutError.
+   * @param options.signal Aborting the signal rejects the promise with an AbortError.
+   * @returns A promise that resolves with the response, or rejects with a HandlerError if the responder throws.
+   * @throws {NoResponderError} If no responder is registered (as a rejection).
+   * @throws {InvalidPayloadError} If a validator is configured for the event and rejects the payload (as a rejection).
+   */
+  async request<K extends RequestName<T, R>>(eventName: K, data: T[K], options?: RequestOptions): Promise<R[K]> {
+    this.validateEventName(eventName, false);
+    data = this.validatePayload(eventName, data);
+    const responder = this.responders.get(eventName);
+    if (!responder) {
+      throw new NoResponderError(eventName);
+    }
+    return callResponder(eventName, responder, data, options) as Promise<R[K]>;
+  }
+
+  /**
+   * Read the cached payloads of a sticky event.
+   * @param eventName The sticky event.
+   * @param count If given, return up to this many of the latest payloads, oldest first, instead of only the latest one.
+   * @returns The latest payload, or undefined if none is cached. With `count`, an array of payloads.
+   */
+  getLast<K extends keyof T>(eventName: K): T[K] | undefined;
+  getLast<K extends keyof T>(eventName: K, count: number): T[K][];
+  getLast<K extends keyof T>(eventName: K, count?: number): T[K] | T[K][] | undefined {
+    const cached = (this.sticky?.get(eventName) ?? []).map(entry => entry.data as T[K]);
+    if (count === undefined) {
+      return cached[cached.length - 1];
+    }
+    return count > 0 ? cached.slice(-count) : [];
+  }
+
+  /**
+   * Forget the cached payloads of a sticky event. The event stays sticky.
+   * @param eventName The event to clear. If omitted, the payloads of every sticky event are forgotten.
+   */
+  clearSticky<K extends keyof T>(eventName?: K): void {
+    this.sticky?.clear(eventName);
+  }
 
-    // When calling 'on', the wrappedHandler should match the type expected by 'on' for the given eventName.
-    // When calling 'on', the wrappedHandler should match the type expected by 'on' for the given eventName.
-    // The logic within wrappedHandler ensures it behaves correctly based on eventName type.
-    // Using 'as any' here to simplify overly complex type inference for TS.
-    return this.on(eventName, wrappedHandler as any);
+  /**
+   * Read the recorded history. Only available if the emitter was created with the `history` option.
+   * Each delivered event is recorded once its middleware has run; handler outcomes are filled in
+   * as the handlers settle, so an entry of an emission still in progress may list pending handlers.
+   * @param query Optional criteria; entries must match all of them.
+   * @param query.event Only entries of this event.
+   * @param query.pattern Only entries whose event name matches this pattern.
+   * @param query.since Only entries recorded at or after this time (a Date or milliseconds since the epoch).
+   * @param query.limit At most this many entries, the most recent ones.
+   * @returns Snapshots of the matching entries, oldest first. Empty if history is not enabled.
+   * @throws {InvalidEventNameError} If the pattern is malformed.
+   */
+  history(query?: HistoryQuery<T>): HistoryEntry<T>[] {
+    return (this.recorder?.query(query) ?? []) as HistoryEntry<T>[];
+  }
+
+  /**
+   * Serialize the recorded history to JSON, e.g. to attach it to a bug report.
+   * @param query Optional criteria, as for `history`.
+   * @returns A JSON array of entries. Handlers are identified by their function name and errors by their name and message.
+   */
+  exportHistory(query?: HistoryQuery<T>): string {
+    return serializeHistory(this.history(query));
+  }
+
+  /**
+   * Forget every recorded event. Recording continues.
+   */
+  clearHistory(): void {
+    this.recorder?.clear();
   }
 
   /**
@@ -348,18 +1392,30 @@ export class TypeSafeEmitter<T extends EventMap> {
         this.validateEventName(eventName);
     }
 
-    if (eventName) {
+    // Lists are cleared rather than just dropped so that an emit in progress skips their listeners.
+    if (eventName !== undefined) {
       if (eventName === '*') {
         this.starHandlers.clear();
-      } else if (typeof eventName === 'string' && eventName.includes('*')) {
+      } else if (isPattern(eventName)) {
+        this.wildcardHandlers.get(eventName)?.clear();
         this.wildcardHandlers.delete(eventName);
+        this.patternIndex.remove(eventName);
       } else {
-        delete this.handlers[eventName as keyof T];
+        this.handlers.get(eventName)?.clear();
+        this.handlers.delete(eventName);
       }
     } else {
-      this.handlers = {};
+      this.handlers.forEach(handlers => handlers.clear());
+      this.handlers.clear();
       this.starHandlers.clear();
+      this.wildcardHandlers.forEach(handlers => handlers.clear());
       this.wildcardHandlers.clear();
+      this.patternIndex.clear();
+    }
+    if (eventName !== undefined) {
+      this.reportedLeaks.delete(eventName);
+    } else {
+      this.reportedLeaks.clear();
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { AbortError, BufferOverflowError } from './errors';
+
+/**
+ * What an `iterate` iterator does with an event that arrives while its buffer is full.
+ * - 'drop-oldest': discard the oldest buffered event to make room.
+ * - 'drop-newest': discard the incoming event.
+ * - 'error': stop listening and fail the iterator with a BufferOverflowError.
+ */
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+/**
+ * Options accepted by `iterate`.
+ */
+export interface IterateOptions {
+  /** Maximum number of events buffered while the consumer is busy. Defaults to no limit. */
+  bufferSize?: number;
+  /** What to do when the buffer is full. Defaults to 'drop-oldest'. */
+  overflow?: OverflowPolicy;
+  /** Aborting the signal stops listening and fails the iterator with an AbortError. */
+  signal?: AbortSignal;
+}
+
+interface Waiter<V> {
+  resolve(result: IteratorResult<V, undefined>): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Creates an async iterator over the values pushed by a subscription.
+ *
+ * Values that arrive while nobody is waiting are buffered according to the overflow policy.
+ * When the iterator fails (overflow or abort), the values already buffered are still yielded,
+ * then `next` rejects once and the iterator is done. Calling `return`, which `for await`
+ * does when the loop exits early, unsubscribes and drops the buffer.
+ * @param eventName The event or pattern being iterated, used in error messages.
+ * @param subscribe Starts the subscription with a push callback and returns its unsubscribe function.
+ * @param options Buffering, overflow and cancellation options.
+ * @throws {RangeError} If `bufferSize` is less than 1.
+ */
+export function createEventIterator<V>(
+  eventName: PropertyKey,
+  subscribe: (push: (value: V) => void) => () => void,
+  options: IterateOptions = {}
+): AsyncIterableIterator<V> {
+  const bufferSize = options.bufferSize ?? Infinity;
+  if (!(bufferSize >= 1)) {
+    throw new RangeError(`bufferSize must be at least 1, got ${options.bufferSize}`);
+  }
+  const overflow = options.overflow ?? 'drop-oldest';
+  const signal = options.signal;
+
+  const buffer: V[] = [];
+  const waiters: Waiter<V>[] = [];
+  let done = false;
+  let failure: { error: unknown } | undefined;
+  let unsubscribe: (() => void) | undefined;
+
+  const onAbort = () => fail(new AbortError(`Iteration over "${String(eventName)}" was aborted`, signal!.reason));
+
+  function stop(): void {
+    done = true;
+    signal?.removeEventListener('abort', onAbort);
+    unsubscribe?.();
+    unsubscribe = undefined;
+  }
+
+  function fail(error: unknown): void {
+    if (done) {
+      return;
+    }
+    stop();
+    // Waiters only exist while the buffer is empty, so the first one receives the error.
+    const waiter = waiters.shift();
+    if (waiter) {
+      waiter.reject(error);
+    } else {
+      failure = { error };
+    }
+    waiters.splice(0).forEach(w => w.resolve({ value: undefined, done: true }));
+  }
+
+  function push(value: V): void {
+    if (done) {
+      return;
+    }
+    const waiter = waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+    } else if (buffer.length < bufferSize) {
+      buffer.push(value);
+    } else if (overflow === 'drop-oldest') {
+      buffer.shift();
+      buffer.push(value);
+    } else if (overflow === 'error') {
+      fail(new BufferOverflowError(eventName, bufferSize));
+    }
+  }
+
+  if (signal?.aborted) {
+    fail(new AbortError(`Iteration over "${String(eventName)}" was aborted`, signal.reason));
+  } else {
+    unsubscribe = subscribe(push);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    next(): Promise<IteratorResult<V, undefined>> {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+      if (failure) {
+        const { error } = failure;
+        failure = undefined;
+        return Promise.reject(error);
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+    },
+    return(): Promise<IteratorResult<V, undefined>> {
+      stop();
+      buffer.length = 0;
+      failure = undefined;
+      waiters.splice(0).forEach(w => w.resolve({ value: undefined, done: true }));
+      return Promise.resolve({ value: undefined, done: true });
+    },
+    [Symbol.asyncIterator]() {
+      return this;
+    },
+  };
+}
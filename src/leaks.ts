@@ -0,0 +1,39 @@
+import { Listener } from './listeners';
+
+/**
+ * Number of subscription stack traces included in a PossibleListenerLeak.
+ */
+export const LEAK_STACK_LIMIT = 5;
+
+/**
+ * Where and when a listener was subscribed. Only recorded while leak detection is enabled.
+ */
+export interface SubscriptionTrace {
+  /** Increases with every subscription, unlike `order`, which prepending makes negative. */
+  readonly sequence: number;
+  readonly stack: string;
+}
+
+/**
+ * Captures the stack of the current subscription, without the line of the Error itself.
+ */
+export function captureStack(): string {
+  const stack = new Error().stack ?? '';
+  return stack.slice(stack.indexOf('\n') + 1);
+}
+
+/**
+ * Returns the stacks of the most recently subscribed listeners, newest first.
+ * @param listeners The listeners to look at. Those without a trace are skipped.
+ * @param pending The trace of the subscription being made, which is not among `listeners` yet.
+ */
+export function recentStacks(listeners: readonly Listener[], pending?: SubscriptionTrace): string[] {
+  const traces = listeners.flatMap(listener => (listener.trace ? [listener.trace] : []));
+  if (pending) {
+    traces.push(pending);
+  }
+  return traces
+    .sort((a, b) => b.sequence - a.sequence)
+    .slice(0, LEAK_STACK_LIMIT)
+    .map(trace => trace.stack);
+}
@@ -0,0 +1,174 @@
+import type { SubscriptionTrace } from './leaks';
+
+/**
+ * Any handler the emitter stores, exact or wildcard.
+ */
+export type AnyHandler = (...args: any[]) => void | Promise<void>;
+
+/**
+ * A registered handler together with the metadata that decides when it runs.
+ */
+export interface Listener {
+  /** The function registered with `on` (for `once`, the wrapper around the user's handler). */
+  readonly handler: AnyHandler;
+  /** The handler as the user passed it, which is what error reports refer to. */
+  readonly original: AnyHandler;
+  /** True if the handler receives `(eventName, data)` rather than `(data)`. */
+  readonly wildcard: boolean;
+  /** Higher priorities run first. */
+  readonly priority: number;
+  /** Tie-breaker within a priority. Lower runs first; prepended listeners get negative values. */
+  readonly order: number;
+  /** Cleared when the listener is removed, so an emit already in progress skips it. */
+  active: boolean;
+  /** Called once when the listener is removed, e.g. to stop watching an AbortSignal. */
+  detach?: () => void;
+  /** Where the listener was subscribed, recorded for leak warnings. */
+  readonly trace?: SubscriptionTrace;
+  /** Set for local listeners of a scope, which only run for events emitted through that scope. */
+  readonly scope?: ScopeToken;
+}
+
+/**
+ * Identifies a scope created with `scope()`. Nested scopes link to the scope they were created from.
+ */
+export interface ScopeToken {
+  readonly parent?: ScopeToken;
+}
+
+/**
+ * Returns true if an event emitted through `origin` should reach the local listeners of `scope`,
+ * i.e. if `origin` is `scope` itself or one of its nested scopes.
+ * @param origin The scope the event was emitted through, or undefined for the emitter itself.
+ * @param scope The scope a local listener belongs to.
+ */
+export function isWithinScope(origin: ScopeToken | undefined, scope: ScopeToken): boolean {
+  for (let current = origin; current; current = current.parent) {
+    if (current === scope) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Orders listeners by descending priority, then ascending registration order.
+ */
+export function compareListeners(a: Listener, b: Listener): number {
+  return b.priority - a.priority || a.order - b.order;
+}
+
+/**
+ * Calls a listener with the arguments its kind expects.
+ * @param listener The listener to call.
+ * @param eventName The concrete event name being emitted.
+ * @param data The event payload.
+ * @param signal The emission's AbortSignal, passed as a trailing argument only when present.
+ */
+export function invokeListener(listener: Listener, eventName: PropertyKey, data: unknown, signal?: AbortSignal): void | Promise<void> {
+  if (listener.wildcard) {
+    return signal ? listener.handler(eventName, data, signal) : listener.handler(eventName, data);
+  }
+  return signal ? listener.handler(data, signal) : listener.handler(data);
+}
+
+/**
+ * Marks a listener as removed and runs its cleanup.
+ */
+function retire(listener: Listener): void {
+  listener.active = false;
+  const detach = listener.detach;
+  listener.detach = undefined;
+  detach?.();
+}
+
+/**
+ * Merges several listener lists into one list in global execution order.
+ * @param lists The lists to merge. Each may come from a different category (exact, '*', pattern).
+ */
+export function mergeListeners(lists: ListenerList[]): Listener[] {
+  if (lists.length === 1) {
+    return lists[0].toArray();
+  }
+  const merged: Listener[] = [];
+  for (const list of lists) {
+    merged.push(...list.toArray());
+  }
+  return merged.sort(compareListeners);
+}
+
+/**
+ * The listeners registered for one event name, '*' or one pattern.
+ * Behaves like a Set keyed by handler, but keeps its listeners in execution order.
+ */
+export class ListenerList {
+  private byHandler: Map<AnyHandler, Listener> = new Map();
+  private sorted: Listener[] | null = null;
+
+  /**
+   * The number of listeners in the list.
+   */
+  get size(): number {
+    return this.byHandler.size;
+  }
+
+  /**
+   * Returns true if the handler is registered in this list.
+   * @param handler The handler to look up.
+   */
+  has(handler: AnyHandler): boolean {
+    return this.byHandler.has(handler);
+  }
+
+  /**
+   * Adds a listener. Adding a handler that is already registered is a no-op.
+   * @param listener The listener to add.
+   * @returns True if the listener was added.
+   */
+  add(listener: Listener): boolean {
+    if (this.byHandler.has(listener.handler)) {
+      return false;
+    }
+    this.byHandler.set(listener.handler, listener);
+    this.sorted = null;
+    return true;
+  }
+
+  /**
+   * Removes the listener registered for a handler or, failing that, the first listener wrapping
+   * it, such as a `once` listener or one with a timing operator.
+   * @param handler The handler to remove.
+   * @returns True if a listener was removed.
+   */
+  delete(handler: AnyHandler): boolean {
+    const listener = this.byHandler.get(handler) ?? this.toArray().find(candidate => candidate.original === handler);
+    if (!listener) {
+      return false;
+    }
+    this.byHandler.delete(listener.handler);
+    retire(listener);
+    this.sorted = null;
+    return true;
+  }
+
+  /**
+   * Removes every listener.
+   */
+  clear(): void {
+    const listeners = Array.from(this.byHandler.values());
+    this.byHandler.clear();
+    listeners.forEach(retire);
+    this.sorted = null;
+  }
+
+  /**
+   * Returns the listeners in execution order. The array is cached until the list changes,
+   * and must not be mutated by callers.
+   */
+  toArray(): Listener[] {
+    if (!this.sorted) {
+      this.sorted = Array.from(this.byHandler.values()).sort(compareListeners);
+    }
+    return this.sorted;
+  }
+}
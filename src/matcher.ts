@@ -0,0 +1,283 @@
+import { InvalidEventNameError } from './errors';
+
+/**
+ * Separator between the segments of a dotted event name.
+ */
+export const SEGMENT_SEPARATOR = '.';
+
+/**
+ * Matches exactly one segment of an event name.
+ */
+export const SINGLE_WILDCARD = '*';
+
+/**
+ * Matches any number of segments of an event name, including none.
+ */
+export const MULTI_WILDCARD = '**';
+
+/**
+ * Upper bound on the number of event names whose matches are cached.
+ * The cache is dropped wholesale once it grows past this size.
+ */
+const MATCH_CACHE_LIMIT = 1000;
+
+/**
+ * A node of the pattern trie. Every path from the root spells out the
+ * segments of one or more compiled patterns.
+ */
+interface PatternNode {
+  literals: Map<string, PatternNode>;
+  single?: PatternNode;
+  multi?: PatternNode;
+  /** The pattern that ends at this node, if any. */
+  pattern?: string;
+}
+
+const createNode = (): PatternNode => ({ literals: new Map() });
+
+/**
+ * Returns true if the event name should be treated as a wildcard pattern.
+ * @param eventName The event name to inspect.
+ */
+export function isPattern(eventName: unknown): eventName is string {
+  return typeof eventName === 'string' && eventName.includes(SINGLE_WILDCARD);
+}
+
+/**
+ * Splits a wildcard pattern into its segments.
+ * Throws InvalidEventNameError if the pattern is malformed.
+ * @param pattern The pattern to parse, e.g. `user.*.profile` or `audit.**`.
+ */
+export function parsePattern(pattern: string): string[] {
+  const segments = pattern.split(SEGMENT_SEPARATOR);
+  for (const segment of segments) {
+    if (segment === '') {
+      throw new InvalidEventNameError(`Wildcard pattern "${pattern}" contains an empty segment.`);
+    }
+    if (segment !== SINGLE_WILDCARD && segment !== MULTI_WILDCARD && segment.includes(SINGLE_WILDCARD)) {
+      throw new InvalidEventNameError(
+        `Wildcard pattern "${pattern}" is invalid: "*" and "**" must span a whole segment.`
+      );
+    }
+  }
+  return segments;
+}
+
+/**
+ * Returns true if the event name matches the pattern.
+ * Useful for one-off checks; the emitter itself goes through a PatternIndex.
+ * @param pattern The wildcard pattern.
+ * @param eventName The concrete event name.
+ */
+export function matchesPattern(pattern: string, eventName: string): boolean {
+  if (pattern === SINGLE_WILDCARD) {
+    return true;
+  }
+  return matchSegments(parsePattern(pattern), eventName.split(SEGMENT_SEPARATOR), 0, 0);
+}
+
+function matchSegments(pattern: string[], name: string[], p: number, n: number): boolean {
+  if (p === pattern.length) {
+    return n === name.length;
+  }
+  if (pattern[p] === MULTI_WILDCARD) {
+    for (let next = n; next <= name.length; next++) {
+      if (matchSegments(pattern, name, p + 1, next)) {
+        return true;
+      }
+    }
+    return false;
+  }
+  if (n === name.length) {
+    return false;
+  }
+  return (pattern[p] === SINGLE_WILDCARD || pattern[p] === name[n]) && matchSegments(pattern, name, p + 1, n + 1);
+}
+
+/**
+ * Precompiled index of wildcard patterns.
+ *
+ * Patterns are parsed once when added and stored in a segment trie, so looking
+ * up the patterns that match an event name walks only the branches that can
+ * match instead of testing every registered pattern. Results are cached per
+ * event name until the set of patterns changes.
+ */
+export class PatternIndex {
+  private root: PatternNode = createNode();
+  private order: Map<string, number> = new Map();
+  private nextOrder = 0;
+  private cache: Map<string, string[]> = new Map();
+
+  /**
+   * The number of patterns in the index.
+   */
+  get size(): number {
+    return this.order.size;
+  }
+
+  /**
+   * Returns true if the pattern has been added to the index.
+   * @param pattern The pattern to look up.
+   */
+  has(pattern: string): boolean {
+    return this.order.has(pattern);
+  }
+
+  /**
+   * Compiles a pattern into the index. Adding a pattern twice is a no-op.
+   * @param pattern The pattern to add.
+   * @throws {InvalidEventNameError} If the pattern is malformed.
+   */
+  add(pattern: string): void {
+    if (this.order.has(pattern)) {
+      return;
+    }
+    let node = this.root;
+    for (const segment of parsePattern(pattern)) {
+      if (segment === SINGLE_WILDCARD) {
+        node = node.single ??= createNode();
+      } else if (segment === MULTI_WILDCARD) {
+        node = node.multi ??= createNode();
+      } else {
+        let next = node.literals.get(segment);
+        if (!next) {
+          next = createNode();
+          node.literals.set(segment, next);
+        }
+        node = next;
+      }
+    }
+    node.pattern = pattern;
+    this.order.set(pattern, this.nextOrder++);
+    this.cache.clear();
+  }
+
+  /**
+   * Removes a pattern from the index and prunes the branches it no longer needs.
+   * @param pattern The pattern to remove.
+   */
+  remove(pattern: string): void {
+    if (!this.order.delete(pattern)) {
+      return;
+    }
+    this.prune(this.root, parsePattern(pattern), 0);
+    this.cache.clear();
+  }
+
+  /**
+   * Removes every pattern from the index.
+   */
+  clear(): void {
+    this.root = createNode();
+    this.order.clear();
+    this.cache.clear();
+  }
+
+  /**
+   * Returns the patterns that match an event name, in the order they were added.
+   * @param eventName The concrete event name.
+   */
+  match(eventName: string): readonly string[] {
+    const cached = this.cache.get(eventName);
+    if (cached) {
+      return cached;
+    }
+
+    const found = new Set<string>();
+    if (this.order.size > 0) {
+      this.collect(this.root, eventName.split(SEGMENT_SEPARATOR), 0, found);
+    }
+    const matches = Array.from(found);
+    if (matches.length > 1) {
+      matches.sort((a, b) => this.order.get(a)! - this.order.get(b)!);
+    }
+
+    if (this.cache.size >= MATCH_CACHE_LIMIT) {
+      this.cache.clear();
+    }
+    this.cache.set(eventName, matches);
+    return matches;
+  }
+
+  private collect(node: PatternNode, segments: string[], index: number, found: Set<string>): void {
+    if (node.multi) {
+      // `**` may swallow any number of the remaining segments, including none.
+      for (let next = index; next <= segments.length; next++) {
+        this.collect(node.multi, segments, next, found);
+      }
+    }
+    if (index === segments.length) {
+      if (node.pattern !== undefined) {
+        found.add(node.pattern);
+      }
+      return;
+    }
+    const literal = node.literals.get(segments[index]);
+    if (literal) {
+      this.collect(literal, segments, index + 1, found);
+    }
+    if (node.single) {
+      this.collect(node.single, segments, index + 1, found);
+    }
+  }
+
+  /**
+   * Clears the pattern marker along a path and drops nodes left empty.
+   * Returns true if the node itself can be discarded by its parent.
+   */
+  private prune(node: PatternNode, segments: string[], index: number): boolean {
+    if (index === segments.length) {
+      node.pattern = undefined;
+    } else {
+      const segment = segments[index];
+      if (segment === SINGLE_WILDCARD) {
+        if (node.single && this.prune(node.single, segments, index + 1)) {
+          node.single = undefined;
+        }
+      } else if (segment === MULTI_WILDCARD) {
+        if (node.multi && this.prune(node.multi, segments, index + 1)) {
+          node.multi = undefined;
+        }
+      } else {
+        const child = node.literals.get(segment);
+        if (child && this.prune(child, segments, index + 1)) {
+          node.literals.delete(segment);
+        }
+      }
+    }
+    return node.pattern === undefined && !node.single && !node.multi && node.literals.size === 0;
+  }
+}
+
+/**
+ * Creates a predicate that tells whether an event name is selected by a list of exact event
+ * names and patterns. A '*' selector selects every event.
+ * @param selectors The event names and patterns.
+ * @throws {InvalidEventNameError} If a pattern is malformed.
+ */
+export function createEventFilter(selectors: readonly PropertyKey[]): (eventName: PropertyKey) => boolean {
+  if (selectors.includes(SINGLE_WILDCARD)) {
+    return () => true;
+  }
+  const names = new Set<PropertyKey>();
+  const patterns = new PatternIndex();
+  for (const selector of selectors) {
+    if (isPattern(selector)) {
+      patterns.add(selector);
+    } else {
+      names.add(selector);
+    }
+  }
+  return eventName => names.has(eventName)
+    || (typeof eventName === 'string' && patterns.size > 0 && patterns.match(eventName).length > 0);
+}
+
+/**
+ * Returns the key an event's entry has in an object keyed by event names, such as the `sticky`
+ * and `maxListenersPerEvent` options. Object keys are strings or symbols, so a number event
+ * name is looked up by its string form.
+ * @param eventName The event name.
+ */
+export function configKey(eventName: PropertyKey): string | symbol {
+  return typeof eventName === 'number' ? String(eventName) : eventName;
+}
@@ -0,0 +1,105 @@
+import { TypeSafeEmitterError } from './errors';
+import { SINGLE_WILDCARD, createEventFilter } from './matcher';
+import { MatchingEventNames, WildcardPattern } from './types';
+
+/**
+ * The emission a middleware sees. It is a union over the selected event names, so
+ * checking `eventName` narrows `data`.
+ */
+export type EmitContext<T, K extends keyof T = keyof T> = K extends keyof T
+  ? {
+      /** The event being emitted. */
+      readonly eventName: K;
+      /** The payload. Assigning a new value changes what handlers and later middleware receive. */
+      data: T[K];
+      /** Free-form values shared between the middleware of one emission. */
+      readonly metadata: Record<string, unknown>;
+    }
+  : never;
+
+/**
+ * Continues with the next middleware, or with delivery to the listeners after the last one.
+ * In `emit` it returns once the listeners have been called and throws their errors synchronously.
+ * In `emitAsync` it returns a promise that settles when the listeners have settled.
+ */
+export type NextFunction = () => void | Promise<void>;
+
+/**
+ * A function that runs before an event is delivered. Not calling `next` stops the event.
+ */
+export type Middleware<T, K extends keyof T = keyof T> = (ctx: EmitContext<T, K>, next: NextFunction) => void | Promise<void>;
+
+/**
+ * The event names a middleware registered for an event name or pattern receives.
+ */
+export type MiddlewareEventNames<T, K> = K extends WildcardPattern
+  ? MatchingEventNames<T, K>
+  : K extends keyof T
+    ? K
+    : never;
+
+/** Emissions that reached listeners outside the emitter, e.g. those of `toNodeEmitter`. */
+const handledExternally = new WeakSet<object>();
+
+/**
+ * Marks an emission as delivered to listeners outside the emitter, so that it is not treated as
+ * unhandled when the emitter has no listeners for it. Used by the adapters to other emitters.
+ * @param ctx The context of the emission.
+ */
+export function markHandledExternally(ctx: EmitContext<any>): void {
+  handledExternally.add(ctx);
+}
+
+/**
+ * Returns true if a middleware marked the emission with `markHandledExternally`.
+ * @param ctx The context of the emission.
+ */
+export function isHandledExternally(ctx: EmitContext<any>): boolean {
+  return handledExternally.has(ctx);
+}
+
+/**
+ * A registered middleware and the events it applies to.
+ */
+export interface MiddlewareEntry {
+  readonly middleware: Middleware<any>;
+  /** Returns true if the middleware applies to an event. */
+  readonly appliesTo: (eventName: PropertyKey) => boolean;
+}
+
+/**
+ * Creates the entry for a middleware limited to the given event names and patterns.
+ * A '*' selector makes the middleware apply to every event.
+ * @param middleware The middleware function.
+ * @param selectors The event names and patterns to apply to, or undefined for every event.
+ * @throws {InvalidEventNameError} If a pattern is malformed.
+ */
+export function createMiddlewareEntry(middleware: Middleware<any>, selectors: readonly PropertyKey[] = [SINGLE_WILDCARD]): MiddlewareEntry {
+  return { middleware, appliesTo: createEventFilter(selectors) };
+}
+
+/**
+ * Runs middleware in order, then `deliver` if every middleware called `next`.
+ * Returns whatever the first middleware returns, so `emitAsync` can await the chain.
+ * @param middleware The middleware to run, in registration order.
+ * @param ctx The context passed to every middleware.
+ * @param deliver Delivers the event to its listeners.
+ * @throws {TypeSafeEmitterError} If a middleware calls `next` more than once.
+ */
+export function runMiddleware(
+  middleware: Middleware<any>[],
+  ctx: EmitContext<any>,
+  deliver: NextFunction
+): void | Promise<void> {
+  let called = -1;
+  const step = (index: number): void | Promise<void> => {
+    if (index <= called) {
+      throw new TypeSafeEmitterError('next() called multiple times');
+    }
+    called = index;
+    return index === middleware.length
+      ? deliver()
+      : middleware[index](ctx, () => step(index + 1));
+  };
+  return step(0);
+}
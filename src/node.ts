@@ -0,0 +1,221 @@
+import { EventEmitter } from 'events';
+import { HandlerError } from './errors';
+import { EmitContext, NextFunction, markHandledExternally } from './middleware';
+import { EventMap, TypeSafeEmitter, TypeSafeEmitterOptions } from './index';
+
+/**
+ * Options accepted by `toNodeEmitter`.
+ */
+export interface ToNodeEmitterOptions {
+  /** Detaches the EventEmitter from the TypeSafeEmitter when aborted, leaving a plain EventEmitter. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by `fromNodeEmitter`. The others configure the TypeSafeEmitter it creates.
+ */
+export interface FromNodeEmitterOptions<T extends EventMap> extends TypeSafeEmitterOptions<T> {
+  /**
+   * Events whose payload is the array of every argument the Node emitter passes, e.g. 'exit' of
+   * a child process, which passes a code and a signal. Other events carry the first argument.
+   */
+  multiArgs?: ReadonlyArray<keyof T>;
+  /** Detaches the TypeSafeEmitter from the Node emitter when aborted, restoring its `emit`. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Calls a Node style `emit`, throwing what a typed handler threw rather than the HandlerError
+ * `emit` wraps it in, as Node's emitter lets a listener's error propagate unchanged.
+ */
+function emitUnwrapped(emit: () => void): void {
+  try {
+    emit();
+  } catch (err) {
+    throw err instanceof HandlerError ? err.cause : err;
+  }
+}
+
+/**
+ * Node's EventEmitter in front of a TypeSafeEmitter. Listeners are kept by the EventEmitter
+ * itself, so `once`, `prependListener`, `removeListener` and the other listener methods behave
+ * exactly as in Node; a middleware on the TypeSafeEmitter passes its events to them.
+ */
+class NodeEmitterAdapter extends EventEmitter {
+  /** The arguments of the `emit` calls in progress, so Node listeners receive all of them. */
+  private emitting: Array<{ eventName: PropertyKey; args: unknown[] }> = [];
+
+  /** True once the `signal` has aborted. */
+  private detached = false;
+
+  constructor(private readonly target: TypeSafeEmitter<any, any>, signal?: AbortSignal) {
+    super();
+    if (signal?.aborted) {
+      this.detached = true;
+      return;
+    }
+    const removeMiddleware = target.use((ctx: EmitContext<any>, next: NextFunction) => this.deliver(ctx, next));
+    signal?.addEventListener('abort', () => {
+      this.detached = true;
+      removeMiddleware();
+    }, { once: true });
+  }
+
+  /**
+   * Calls the Node listeners of an event emitted on either side, then the typed ones. An event
+   * Node listeners handled does not count as unhandled, even if it has no typed listeners.
+   */
+  private deliver(ctx: EmitContext<any>, next: NextFunction): void | Promise<void> {
+    const eventName = ctx.eventName as string | symbol;
+    // Node's emitter throws an 'error' event without listeners.
+    if (super.listenerCount(eventName) > 0) {
+      const current = this.emitting[this.emitting.length - 1];
+      const args = current?.eventName === eventName && Object.is(current.args[0], ctx.data) ? current.args : [ctx.data];
+      super.emit(eventName, ...args);
+      markHandledExternally(ctx);
+    }
+    return next();
+  }
+
+  /**
+   * Emits an event on the TypeSafeEmitter, whose listeners receive the first argument and Node
+   * listeners all of them. Like Node, an 'error' event nobody listens to throws its Error.
+   * @returns True if the event had listeners on either side.
+   */
+  emit(eventName: string | symbol, ...args: any[]): boolean {
+    if (this.detached) {
+      return super.emit(eventName, ...args);
+    }
+    const handled = this.listenerCount(eventName) > 0;
+    if (!handled && eventName === 'error') {
+      if (args[0] instanceof Error) {
+        throw args[0];
+      }
+      // Node's emitter throws an ERR_UNHANDLED_ERROR describing the payload.
+      return super.emit(eventName, ...args);
+    }
+    this.emitting.push({ eventName, args });
+    try {
+      emitUnwrapped(() => this.target.emit(eventName, args[0]));
+    } finally {
+      this.emitting.pop();
+    }
+    return handled;
+  }
+
+  /**
+   * Counts the listeners of an event on both sides, including the TypeSafeEmitter's '*' and
+   * pattern listeners that match it.
+   */
+  listenerCount(eventName: string | symbol, listener?: Function): number {
+    if (this.detached) {
+      return super.listenerCount(eventName, listener);
+    }
+    const typed = this.target.listeners(eventName).filter(original => !listener || original === listener);
+    return super.listenerCount(eventName, listener) + typed.length;
+  }
+}
+
+/**
+ * Exposes a TypeSafeEmitter as a Node `EventEmitter`, for code that expects one. Listeners added
+ * to the EventEmitter receive the events emitted on either side, and its `emit` reaches the
+ * TypeSafeEmitter's listeners too, which receive the first argument only. `emit` follows Node's
+ * rules: it returns whether the event had listeners, throws what a listener throws, and throws
+ * the payload of an 'error' event without listeners. `listenerCount` counts both sides; the
+ * other methods, such as `listeners` and `eventNames`, only see the EventEmitter's listeners.
+ *
+ * A middleware added to the TypeSafeEmitter delivers its events to the Node listeners, so
+ * middleware added later sees them after those listeners have run. It is removed when `signal`
+ * aborts, after which the EventEmitter no longer reaches the TypeSafeEmitter.
+ * @param emitter The emitter to expose.
+ * @param options When to detach from the emitter.
+ * @returns An EventEmitter backed by the emitter.
+ */
+export function toNodeEmitter<T extends EventMap>(emitter: TypeSafeEmitter<T, any>, options: ToNodeEmitterOptions = {}): EventEmitter {
+  return new NodeEmitterAdapter(emitter as TypeSafeEmitter<any, any>, options.signal);
+}
+
+/**
+ * Wraps a Node `EventEmitter`, e.g. a stream or a child process, in a TypeSafeEmitter. Events the
+ * Node emitter emits are emitted on the TypeSafeEmitter after the Node listeners have run, even
+ * without typed listeners, so its middleware, sticky events and history see them; they never
+ * count as unhandled. Events emitted on the TypeSafeEmitter reach the Node listeners. To see every event, including
+ * those emitted internally, the Node emitter's `emit` is replaced until `signal` aborts.
+ *
+ * An 'error' event handled on the TypeSafeEmitter does not make the Node emitter throw, so
+ * listening with `on('error', ...)` is enough to keep a failing stream from crashing the process.
+ * A readable stream only starts flowing by itself when a Node 'data' listener is added, so call
+ * its `resume` after subscribing to 'data' on the TypeSafeEmitter.
+ * @param nodeEmitter The Node emitter to wrap.
+ * @param options Which events pass every argument, when to detach, and the TypeSafeEmitter's options.
+ * @returns A TypeSafeEmitter backed by the Node emitter.
+ */
+export function fromNodeEmitter<T extends EventMap>(nodeEmitter: EventEmitter, options: FromNodeEmitterOptions<T> = {}): TypeSafeEmitter<T> {
+  const { multiArgs = [], signal, ...emitterOptions } = options;
+  const emitter = new TypeSafeEmitter<T>(emitterOptions);
+  // Event names and payloads come from the Node emitter, so they are only known at runtime.
+  const target = emitter as TypeSafeEmitter<any, any>;
+  const multiArgEvents = new Set<PropertyKey>(multiArgs);
+  const hadOwnEmit = Object.prototype.hasOwnProperty.call(nodeEmitter, 'emit');
+  const originalEmit = nodeEmitter.emit;
+  // Events being delivered after the Node emitter emitted them, so they are not passed back to it.
+  const inbound: Array<{ eventName: PropertyKey; data: unknown }> = [];
+
+  const removeMiddleware = target.use((ctx: EmitContext<any>, next: NextFunction) => {
+    const eventName = ctx.eventName as string | symbol;
+    // Node drops events nobody listens to, so those coming from it never count as unhandled.
+    if (inbound.some(delivery => delivery.eventName === eventName && Object.is(delivery.data, ctx.data))) {
+      markHandledExternally(ctx);
+      return next();
+    }
+    if (nodeEmitter.listenerCount(eventName) === 0) {
+      return next();
+    }
+    const args = multiArgEvents.has(eventName) && Array.isArray(ctx.data) ? ctx.data : [ctx.data];
+    originalEmit.apply(nodeEmitter, [eventName, ...args]);
+    markHandledExternally(ctx);
+    return next();
+  });
+
+  const patchedEmit = function (this: EventEmitter, eventName: string | symbol, ...args: any[]): boolean {
+    const nodeListeners = this.listenerCount(eventName) > 0;
+    const handled = nodeListeners || target.hasListeners(eventName);
+    // Like Node, an 'error' event nobody listens to throws.
+    if (!handled && eventName === 'error') {
+      return originalEmit.apply(this, [eventName, ...args]);
+    }
+    // Without Node listeners, Node's emitter would throw an 'error' the typed listeners handle.
+    if (nodeListeners) {
+      originalEmit.apply(this, [eventName, ...args]);
+    }
+    const delivery = { eventName, data: multiArgEvents.has(eventName) ? args : args[0] };
+    inbound.push(delivery);
+    try {
+      emitUnwrapped(() => target.emit(eventName, delivery.data));
+    } finally {
+      inbound.splice(inbound.indexOf(delivery), 1);
+    }
+    return handled;
+  };
+  nodeEmitter.emit = patchedEmit;
+
+  const detach = () => {
+    removeMiddleware();
+    if (nodeEmitter.emit !== patchedEmit) {
+      // Something replaced `emit` after us; putting the original back would undo it.
+      return;
+    }
+    if (hadOwnEmit) {
+      nodeEmitter.emit = originalEmit;
+    } else {
+      delete (nodeEmitter as Partial<EventEmitter>).emit;
+    }
+  };
+  if (signal?.aborted) {
+    detach();
+  } else {
+    signal?.addEventListener('abort', detach, { once: true });
+  }
+
+  return emitter;
+}
@@ -0,0 +1,106 @@
+import { MatchingEventNames, PatternHandlerArgs } from './types';
+
+/**
+ * An `[eventName, data]` pair that is a valid entry of the event map `U`.
+ */
+export type PipeEntry<U> = {
+  [N in keyof U]: [eventName: N, data: U[N]];
+}[keyof U];
+
+/**
+ * The events of `T` whose payload can be forwarded unchanged to an emitter of `U`:
+ * the names exist in both maps and the payload of `T` is assignable to the one of `U`.
+ */
+export type ForwardableEvents<T, U> = {
+  [K in keyof T & keyof U]: T[K] extends U[K] ? K : never;
+}[keyof T & keyof U];
+
+/**
+ * The events of `T` a pipe forwards: the listed `events` plus the events matching `pattern`,
+ * or every event if neither is given.
+ */
+export type PipedEvents<T, K extends keyof T, P extends string> = [K | P] extends [never]
+  ? keyof T
+  : K | ([P] extends [never] ? never : MatchingEventNames<T, P>);
+
+/**
+ * Maps a forwarded event to an entry of the target's event map, or to undefined to drop it.
+ */
+export type PipeMapper<T, U, E extends keyof T> = (...args: PatternHandlerArgs<T, E>) => PipeEntry<U> | undefined;
+
+/**
+ * Options accepted by `pipe`.
+ */
+export interface PipeOptions<T, U, K extends keyof T, P extends string> {
+  /** Event names to forward. */
+  events?: readonly K[];
+  /** A wildcard pattern of events to forward. */
+  pattern?: P;
+  /** Renames or transforms forwarded events. Required if some piped events do not exist in the target with a compatible payload. */
+  map?: PipeMapper<T, U, PipedEvents<T, K, P>>;
+  /** Aborting the signal stops forwarding. */
+  signal?: AbortSignal;
+}
+
+/**
+ * The options argument of `pipe`. It is optional when every piped event can be forwarded
+ * unchanged, and must include `map` otherwise.
+ */
+export type PipeArgs<T, U, K extends keyof T, P extends string> =
+  [Exclude<PipedEvents<T, K, P>, ForwardableEvents<T, U>>] extends [never]
+    ? [options?: PipeOptions<T, U, K, P>]
+    : [options: PipeOptions<T, U, K, P> & { map: PipeMapper<T, U, PipedEvents<T, K, P>> }];
+
+/**
+ * A forwarded event being delivered to an emitter, and the emitters it was forwarded through.
+ */
+interface Delivery {
+  readonly emitter: object;
+  readonly eventName: PropertyKey;
+  readonly data: unknown;
+  /** The emitters the event has been emitted on, including `emitter`. */
+  readonly visited: ReadonlySet<object>;
+}
+
+/**
+ * The forwarded events being delivered, innermost last.
+ * Forwarding is synchronous, so the deliveries in progress always form a stack.
+ */
+const deliveries: Delivery[] = [];
+
+/**
+ * Delivers a forwarded event to a target unless the same emission has already been emitted on
+ * the target, which breaks cycles such as A → B → A in bidirectional bridges. An event is the
+ * same emission as a delivery in progress on the source if its name and payload are the ones
+ * delivered; anything else, such as an event emitted by a handler, starts a new chain.
+ * @param source The emitter the event is forwarded from.
+ * @param emission The name and payload of the event on the source.
+ * @param target The emitter the event is forwarded to.
+ * @param entry The name and payload of the event on the target.
+ * @param deliver Emits the entry on the target.
+ */
+export function forwardEvent(
+  source: object,
+  emission: readonly [PropertyKey, unknown],
+  target: object,
+  entry: readonly [PropertyKey, unknown],
+  deliver: () => void
+): void {
+  let visited: ReadonlySet<object> = new Set([source]);
+  for (let i = deliveries.length - 1; i >= 0; i--) {
+    const delivery = deliveries[i];
+    if (delivery.emitter === source && delivery.eventName === emission[0] && Object.is(delivery.data, emission[1])) {
+      visited = delivery.visited;
+      break;
+    }
+  }
+  if (visited.has(target)) {
+    return;
+  }
+  deliveries.push({ emitter: target, eventName: entry[0], data: entry[1], visited: new Set(visited).add(target) });
+  try {
+    deliver();
+  } finally {
+    deliveries.pop();
+  }
+}
@@ -0,0 +1,167 @@
+import { ConnectionClosedError } from './errors';
+import { createEventFilter } from './matcher';
+import { InboundDeliveries, PendingAcks, RemoteFailure, describeFailure, handled } from './transport';
+import { WildcardPattern } from './types';
+import type { EventMap, TypeSafeEmitter } from './index';
+
+/**
+ * Anything messages can be posted to and received from: a `MessagePort`, a `Worker`,
+ * `parentPort` in a worker, or a `BroadcastChannel`. Endpoints with an `on` method (Node's
+ * EventEmitter style) receive the message itself; the others receive a MessageEvent.
+ */
+export interface MessageEndpoint {
+  postMessage(message: unknown): void;
+  on?(type: 'message', listener: (message: unknown) => void): unknown;
+  off?(type: 'message', listener: (message: unknown) => void): unknown;
+  addEventListener?(type: 'message', listener: (event: Event) => void): void;
+  removeEventListener?(type: 'message', listener: (event: Event) => void): void;
+  start?(): void;
+}
+
+/**
+ * Options accepted by `connectPort`.
+ */
+export interface PortTransportOptions<T> {
+  /** Events and patterns posted to the endpoint when emitted locally. '*' sends every event. Defaults to none. */
+  send?: ReadonlyArray<keyof T | WildcardPattern>;
+  /** Events and patterns emitted locally when they arrive from the endpoint. '*' accepts every event. Defaults to none. */
+  receive?: ReadonlyArray<keyof T | WildcardPattern>;
+  /**
+   * If true, sent events ask the other side to acknowledge them once its handlers have settled,
+   * so `emitAsync` on this emitter waits for the remote handlers and fails if they fail.
+   * The other side emits acknowledged events with `emitAsync`. Defaults to false.
+   */
+  ack?: boolean;
+  /** Milliseconds to wait for an acknowledgement before failing with an EmitTimeoutError. Defaults to no limit. */
+  ackTimeout?: number;
+  /**
+   * Receives errors thrown by local handlers of received events that are not acknowledged,
+   * which have nobody to report to. Defaults to `console.error`.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A connection between an emitter and a message endpoint, returned by `connectPort`.
+ */
+export interface PortTransport {
+  /** Stops sending and receiving. Acknowledgements still awaited fail with a ConnectionClosedError. The endpoint is not closed. */
+  close(): void;
+}
+
+/** Marks messages posted by a transport, so other traffic on the endpoint is ignored. */
+const MARKER = '__typesafeEmitter';
+
+type PortMessage =
+  | { [MARKER]: 1; kind: 'event'; from: string; eventName: string | number; data: unknown; id?: number }
+  | { [MARKER]: 1; kind: 'ack'; to: string; id: number; error?: RemoteFailure };
+
+function isPortMessage(message: unknown): message is PortMessage {
+  return typeof message === 'object' && message !== null && (message as Record<string, unknown>)[MARKER] === 1;
+}
+
+let nextTransport = 0;
+
+/**
+ * Connects an emitter to a message endpoint, e.g. one side of a `MessageChannel` or a worker,
+ * so events flow between threads. Payloads are copied with the structured clone algorithm of
+ * `postMessage`, so they may contain Maps, Dates and typed arrays but not functions.
+ *
+ * An event received from the endpoint is not sent back to it, even if it matches `send`.
+ * Symbol event names cannot be sent.
+ * @param emitter The local emitter.
+ * @param endpoint The endpoint to post to and receive from.
+ * @param options Which events to send and receive, and whether to acknowledge them.
+ * @returns The transport, whose `close` disconnects it.
+ * @throws {InvalidEventNameError} If a pattern is malformed.
+ */
+export function connectPort<T extends EventMap>(
+  emitter: TypeSafeEmitter<T, any>,
+  endpoint: MessageEndpoint,
+  options: PortTransportOptions<T> = {}
+): PortTransport {
+  // Event names and payloads are checked by `send` and `receive` only at runtime.
+  const target = emitter as TypeSafeEmitter<any, any>;
+  const id = `${nextTransport++}:${Math.random().toString(36).slice(2)}`;
+  const sends = createEventFilter(options.send ?? []);
+  const receives = createEventFilter(options.receive ?? []);
+  const onError = options.onError ?? (error => console.error(error));
+  const pending = new PendingAcks();
+  const inbound = new InboundDeliveries();
+
+  const post = (message: PortMessage) => endpoint.postMessage(message);
+
+  const forward = (eventName: PropertyKey, data: unknown): void | Promise<void> => {
+    if (typeof eventName === 'symbol' || !sends(eventName)) {
+      return;
+    }
+    if (inbound.has(eventName, data)) {
+      return;
+    }
+    if (!options.ack) {
+      post({ [MARKER]: 1, kind: 'event', from: id, eventName, data });
+      return;
+    }
+    const { id: ackId, acknowledged } = pending.add(eventName, options.ackTimeout);
+    post({ [MARKER]: 1, kind: 'event', from: id, eventName, data, id: ackId });
+    return handled(acknowledged);
+  };
+
+  const deliver = (eventName: string | number, data: unknown, ackTo?: { from: string; id: number }): void => {
+    const done = inbound.start(eventName, data);
+    if (!ackTo) {
+      try {
+        target.emit(eventName, data);
+      } catch (err) {
+        onError(err);
+      } finally {
+        done();
+      }
+      return;
+    }
+    const reply = (error?: RemoteFailure) => {
+      post({ [MARKER]: 1, kind: 'ack', to: ackTo.from, id: ackTo.id, error });
+    };
+    new Promise<unknown>(resolve => resolve(target.emitAsync(eventName, data))).then(
+      () => reply(),
+      err => reply(describeFailure(err)),
+    ).finally(done);
+  };
+
+  const receive = (message: unknown): void => {
+    if (!isPortMessage(message)) {
+      return;
+    }
+    if (message.kind === 'ack') {
+      if (message.to === id) {
+        pending.acknowledge(message.id, message.error);
+      }
+      return;
+    }
+    if (message.from === id || !receives(message.eventName)) {
+      return;
+    }
+    deliver(message.eventName, message.data, message.id === undefined ? undefined : { from: message.from, id: message.id });
+  };
+
+  const receiveEvent = (event: Event) => receive((event as Event & { data: unknown }).data);
+  if (endpoint.on) {
+    endpoint.on('message', receive);
+  } else {
+    endpoint.addEventListener?.('message', receiveEvent);
+    endpoint.start?.();
+  }
+  const unsubscribe = target.on('*', forward);
+
+  return {
+    close() {
+      unsubscribe();
+      if (endpoint.on) {
+        endpoint.off?.('message', receive);
+      } else {
+        endpoint.removeEventListener?.('message', receiveEvent);
+      }
+      pending.failAll(eventName => new ConnectionClosedError(eventName));
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { AbortError, HandlerError, RequestTimeoutError } from './errors';
+
+/**
+ * The answers to request events: for each event name of `T` used with `request` and `handle`,
+ * the type its responder resolves with.
+ */
+export type ResponseMap<T> = {
+  [K in keyof T]?: unknown;
+};
+
+/**
+ * The event names that can be requested: those with both a payload in `T` and a response in `R`.
+ */
+export type RequestName<T, R> = Extract<keyof R, keyof T>;
+
+/**
+ * The function answering a request. It receives the payload and a signal that is aborted
+ * when the caller stops waiting, because the request timed out or was aborted.
+ */
+export type Responder<Payload, Response> = (payload: Payload, signal: AbortSignal) => Response | Promise<Response>;
+
+/**
+ * Options accepted by `request`.
+ */
+export interface RequestOptions {
+  /** Milliseconds to wait for the answer before rejecting with a RequestTimeoutError. */
+  timeout?: number;
+  /** Aborting the signal rejects the request with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Calls a responder and settles with its answer. Rejects with a HandlerError wrapping the
+ * responder's error, with a RequestTimeoutError if it does not answer in time, or with an
+ * AbortError if the signal is aborted first. The responder's own signal is aborted in the
+ * last two cases.
+ * @param eventName The event being requested.
+ * @param responder The registered responder.
+ * @param data The request payload.
+ * @param options Timeout and cancellation options.
+ */
+export function callResponder(
+  eventName: PropertyKey,
+  responder: Responder<unknown, unknown>,
+  data: unknown,
+  options: RequestOptions = {}
+): Promise<unknown> {
+  const signal = options.signal;
+  if (signal?.aborted) {
+    return Promise.reject(new AbortError(`Request "${String(eventName)}" was aborted`, signal.reason));
+  }
+
+  const controller = new AbortController();
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const timer = options.timeout === undefined
+      ? undefined
+      : setTimeout(() => fail(new RequestTimeoutError(eventName, options.timeout!)), options.timeout);
+    const onAbort = () => fail(new AbortError(`Request "${String(eventName)}" was aborted`, signal!.reason));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    function finish(): boolean {
+      if (settled) {
+        return false;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    }
+
+    function fail(error: unknown): void {
+      if (finish()) {
+        controller.abort(error);
+        reject(error);
+      }
+    }
+
+    // The executor runs synchronously, so the responder starts immediately and a synchronous
+    // throw becomes a rejection.
+    new Promise(answer => answer(responder(data, controller.signal))).then(
+      response => {
+        if (finish()) {
+          resolve(response);
+        }
+      },
+      err => {
+        if (finish()) {
+          reject(new HandlerError(eventName, err));
+        }
+      },
+    );
+  });
+}
@@ -0,0 +1,271 @@
+import { InvalidEventNameError, ScopeDisposedError } from './errors';
+import { EmitAsyncOptions, EmitAsyncResult } from './dispatch';
+import { AnyHandler, ScopeToken } from './listeners';
+import { MULTI_WILDCARD, SEGMENT_SEPARATOR, SINGLE_WILDCARD, isPattern } from './matcher';
+import { ScopedEvents } from './types';
+import type { EventMap, HandlerFor, ListenerOptions, SubscribableName } from './index';
+
+/**
+ * Options accepted by `on` and `once` on a scope.
+ */
+export interface ScopeListenerOptions extends ListenerOptions {
+  /**
+   * If true, the listener only runs for events emitted through this scope (or scopes nested
+   * in it), not for the same event emitted on the parent emitter. Defaults to false.
+   */
+  local?: boolean;
+}
+
+/**
+ * What a scope needs from the emitter it was created from. Names are the full, prefixed names.
+ */
+export interface ScopeHost {
+  subscribe(eventName: string, handler: AnyHandler, original: AnyHandler, options: ListenerOptions | undefined, local: ScopeToken | undefined, once: boolean): () => void;
+  isSubscribed(eventName: string, handler: AnyHandler): boolean;
+  emit(eventName: string, data: unknown, origin: ScopeToken): void;
+  emitAsync(eventName: string, data: unknown, options: EmitAsyncOptions | undefined, origin: ScopeToken): Promise<EmitAsyncResult<PropertyKey> | void>;
+}
+
+interface ScopeSubscription {
+  readonly wrapper: AnyHandler;
+  readonly unsubscribe: () => void;
+}
+
+/**
+ * A view of an emitter limited to the events under a prefix, created with `scope()`.
+ *
+ * Names passed to a scope are relative to its prefix: on a `user` scope, `emit('created', ...)`
+ * emits `user.created` on the parent emitter, where exact, '*' and pattern listeners all see it,
+ * and `on('*', ...)` listens to every `user.` event. Wildcard handlers receive relative names.
+ * Everything subscribed through the scope is removed by `dispose`.
+ */
+export class EmitterScope<S extends EventMap> {
+  /** The full prefix, including the prefixes of the scopes this one is nested in. */
+  readonly prefix: string;
+  private readonly host: ScopeHost;
+  private readonly token: ScopeToken;
+  private readonly parentScope?: EmitterScope<any>;
+  private subscriptions: Map<string, Map<AnyHandler, ScopeSubscription>> = new Map();
+  private children: Set<EmitterScope<any>> = new Set();
+  private disposed = false;
+
+  /**
+   * Scopes are created with `TypeSafeEmitter.scope` or `EmitterScope.scope`, not directly.
+   * @param host The emitter the scope subscribes and emits through.
+   * @param prefix The full prefix of the scope.
+   * @param parentScope The scope this one is nested in, if any.
+   */
+  constructor(host: ScopeHost, prefix: string, parentScope?: EmitterScope<any>) {
+    this.host = host;
+    this.prefix = prefix;
+    this.parentScope = parentScope;
+    this.token = { parent: parentScope?.token };
+  }
+
+  /**
+   * Subscribe to an event or pattern of the scope.
+   * @param eventName The event name relative to the prefix, or a pattern. '*' means every event of the scope.
+   * @param handler The callback function. Wildcard handlers receive the relative event name.
+   * @param options Listener options, as for `TypeSafeEmitter.on`.
+   * @param options.local If true, only run for events emitted through this scope.
+   * @returns An unsubscribe function.
+   * @throws {InvalidEventNameError} If the eventName is an empty string, a symbol or a malformed pattern.
+   * @throws {ScopeDisposedError} If the scope has been disposed.
+   */
+  on<K extends keyof S | string>(
+    eventName: SubscribableName<S, K>,
+    handler: HandlerFor<S, K>,
+    options?: ScopeListenerOptions
+  ): () => void {
+    return this.subscribe(eventName, handler as AnyHandler, false, options);
+  }
+
+  /**
+   * Subscribe to an event or pattern of the scope for one-time execution.
+   * @param eventName The event name relative to the prefix, or a pattern.
+   * @param handler The callback function. Wildcard handlers receive the relative event name.
+   * @param options Listener options, as for `on`.
+   * @returns An unsubscribe function.
+   * @throws {InvalidEventNameError} If the eventName is an empty string, a symbol or a malformed pattern.
+   * @throws {ScopeDisposedError} If the scope has been disposed.
+   */
+  once<K extends keyof S | string>(
+    eventName: SubscribableName<S, K>,
+    handler: HandlerFor<S, K>,
+    options?: ScopeListenerOptions
+  ): () => void {
+    return this.subscribe(eventName, handler as AnyHandler, true, options);
+  }
+
+  /**
+   * Unsubscribe a handler added through this scope.
+   * @param eventName The event name or pattern it was subscribed with.
+   * @param handler The handler passed to `on` or `once`.
+   */
+  off<K extends keyof S | string>(eventName: SubscribableName<S, K>, handler: HandlerFor<S, K>): void {
+    this.subscriptions.get(this.resolve(eventName))?.get(handler as AnyHandler)?.unsubscribe();
+  }
+
+  /**
+   * Emit an event of the scope. It is emitted on the parent emitter under its full name,
+   * and also reaches the local listeners of this scope and of the scopes it is nested in.
+   * @param eventName The event name relative to the prefix.
+   * @param data The data to pass to event handlers.
+   * @throws {ScopeDisposedError} If the scope has been disposed.
+   * See `TypeSafeEmitter.emit` for the other errors.
+   */
+  emit<K extends keyof S>(eventName: K, data: S[K]): void {
+    this.assertActive();
+    this.host.emit(this.resolveEmitted(eventName), data, this.token);
+  }
+
+  /**
+   * Asynchronously emit an event of the scope, as `emit` does, and wait for its handlers.
+   * @param eventName The event name relative to the prefix.
+   * @param data The data to pass to event handlers.
+   * @param options Optional execution strategy, as for `TypeSafeEmitter.emitAsync`.
+   * @throws {ScopeDisposedError} If the scope has been disposed.
+   */
+  emitAsync<K extends keyof S>(eventName: K, data: S[K]): Promise<void>;
+  emitAsync<K extends keyof S>(eventName: K, data: S[K], options: EmitAsyncOptions): Promise<EmitAsyncResult<K>>;
+  async emitAsync<K extends keyof S>(eventName: K, data: S[K], options?: EmitAsyncOptions): Promise<EmitAsyncResult<K> | void> {
+    this.assertActive();
+    const result = await this.host.emitAsync(this.resolveEmitted(eventName), data, options, this.token);
+    if (result) {
+      return { ...result, eventName };
+    }
+  }
+
+  /**
+   * Create a scope nested in this one. It is disposed together with this scope.
+   * @param prefix The prefix relative to this scope, e.g. 'profile' for `user.profile.` events.
+   * @returns The nested scope.
+   * @throws {InvalidEventNameError} If the prefix is empty or contains a wildcard.
+   * @throws {ScopeDisposedError} If the scope has been disposed.
+   */
+  scope<P extends string>(prefix: P): EmitterScope<ScopedEvents<S, P>> {
+    this.assertActive();
+    validateScopePrefix(prefix);
+    const child = new EmitterScope<ScopedEvents<S, P>>(this.host, this.resolve(prefix), this);
+    this.children.add(child);
+    return child;
+  }
+
+  /**
+   * Remove every listener subscribed through this scope and its nested scopes.
+   * Subscribing or emitting through a disposed scope throws a ScopeDisposedError.
+   */
+  dispose(): void {
+    if (this.disposed) {
+      return;
+    }
+    this.disposed = true;
+    this.children.forEach(child => child.dispose());
+    this.subscriptions.forEach(handlers => handlers.forEach(subscription => subscription.unsubscribe()));
+    this.subscriptions.clear();
+    this.parentScope?.children.delete(this);
+  }
+
+  private subscribe(eventName: PropertyKey, handler: AnyHandler, once: boolean, options?: ScopeListenerOptions): () => void {
+    this.assertActive();
+    if (typeof eventName === 'string' && eventName.trim() === '') {
+      throw new InvalidEventNameError('Event name cannot be an empty string.');
+    }
+
+    const fullName = this.resolve(eventName);
+    let handlers = this.subscriptions.get(fullName);
+    const existing = handlers?.get(handler);
+    if (existing && this.host.isSubscribed(fullName, existing.wrapper)) {
+      // Like `on`, adding the same handler twice is a no-op.
+      return existing.unsubscribe;
+    }
+
+    const wildcard = eventName === '*' || isPattern(eventName);
+    const strip = this.prefix.length + SEGMENT_SEPARATOR.length;
+    // Set once the subscription is removed, which for `once` may happen while subscribing,
+    // when a replayed payload reaches the wrapper before `remove` is known.
+    let removed = false;
+    let remove: (() => void) | undefined;
+    const unsubscribe = () => {
+      removed = true;
+      remove?.();
+      const current = this.subscriptions.get(fullName);
+      if (current?.get(handler)?.wrapper === wrapper) {
+        current.delete(handler);
+        if (current.size === 0) {
+          this.subscriptions.delete(fullName);
+        }
+      }
+    };
+    const wrapper: AnyHandler = (...args) => {
+      if (once) {
+        if (removed) {
+          return;
+        }
+        unsubscribe();
+      }
+      if (wildcard) {
+        args[0] = (args[0] as string).slice(strip);
+      }
+      return handler(...args);
+    };
+
+    remove = this.host.subscribe(fullName, wrapper, handler, options, options?.local ? this.token : undefined, once);
+    if (removed) {
+      remove();
+      return unsubscribe;
+    }
+
+    if (!handlers) {
+      handlers = new Map();
+      this.subscriptions.set(fullName, handlers);
+    }
+    handlers.set(handler, { wrapper, unsubscribe });
+    return unsubscribe;
+  }
+
+  /**
+   * Turns a name relative to the scope into the full name. '*' becomes `prefix.*.**`, which
+   * matches every event under the prefix but not an event named like the prefix itself.
+   * @throws {InvalidEventNameError} If the name is a symbol, which cannot be prefixed.
+   */
+  private resolve(eventName: PropertyKey): string {
+    if (typeof eventName === 'symbol') {
+      throw new InvalidEventNameError(`Symbol event name ${String(eventName)} cannot be used through a scope.`);
+    }
+    const relative = eventName === '*' ? `${SINGLE_WILDCARD}${SEGMENT_SEPARATOR}${MULTI_WILDCARD}` : String(eventName);
+    return `${this.prefix}${SEGMENT_SEPARATOR}${relative}`;
+  }
+
+  /**
+   * Resolves an emitted name, rejecting the names `emit` would reject on the parent.
+   */
+  private resolveEmitted(eventName: PropertyKey): string {
+    if (typeof eventName === 'string' && eventName.trim() === '') {
+      throw new InvalidEventNameError('Event name cannot be an empty string.');
+    }
+    if (isPattern(eventName)) {
+      throw new InvalidEventNameError(`Wildcard pattern "${eventName}" is not allowed for this operation.`);
+    }
+    return this.resolve(eventName);
+  }
+
+  private assertActive(): void {
+    if (this.disposed) {
+      throw new ScopeDisposedError(this.prefix);
+    }
+  }
+}
+
+/**
+ * Checks that a scope prefix is a non-empty name without wildcards.
+ * @throws {InvalidEventNameError} If the prefix is invalid.
+ */
+export function validateScopePrefix(prefix: string): void {
+  if (prefix.trim() === '') {
+    throw new InvalidEventNameError('Scope prefix cannot be an empty string.');
+  }
+  if (isPattern(prefix)) {
+    throw new InvalidEventNameError(`Scope prefix "${prefix}" cannot contain wildcards.`);
+  }
+}
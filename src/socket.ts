@@ -0,0 +1,586 @@
+import { Server, Socket, createConnection, createServer } from 'net';
+import { ConnectionClosedError, FrameError, QueueOverflowError } from './errors';
+import { EventCodec } from './codec';
+import { createEventFilter } from './matcher';
+import { InboundDeliveries, PendingAcks, RemoteFailure, describeFailure, handled } from './transport';
+import { WildcardPattern } from './types';
+import type { EventMap, TypeSafeEmitter } from './index';
+
+/**
+ * Where a socket server listens or a client connects: a Unix domain socket (or Windows named
+ * pipe) path, or a TCP port.
+ */
+export type SocketAddress = { path: string } | { port: number; host?: string };
+
+/**
+ * Options shared by `serveSocket` and `connectSocket`.
+ */
+export interface SocketTransportOptions<T> {
+  /**
+   * If true, sent events ask the other side to acknowledge them once its handlers have settled,
+   * so `emitAsync` on this emitter waits for the remote handlers and fails if they fail.
+   * Defaults to false.
+   */
+  ack?: boolean;
+  /** Milliseconds to wait for an acknowledgement before failing with an EmitTimeoutError. Defaults to no limit. */
+  ackTimeout?: number;
+  /** Largest accepted frame in bytes. Larger frames close the connection with a FrameError. Defaults to 16 MiB. */
+  maxFrameSize?: number;
+  /**
+   * Receives errors that have nobody to report to: handler errors and CodecErrors of received
+   * events that are not acknowledged, FrameErrors, and QueueOverflowErrors of events sent
+   * without acknowledgement. Defaults to `console.error`.
+   */
+  onError?: (error: unknown) => void;
+  /** Events and patterns sent over the connection. '*' sends every event. */
+  send?: ReadonlyArray<keyof T | WildcardPattern>;
+  /** Events and patterns emitted locally when they arrive over the connection. '*' accepts every event. */
+  receive?: ReadonlyArray<keyof T | WildcardPattern>;
+  /**
+   * Encodes payloads to strings before they are framed, e.g. `jsonCodec()` to keep Dates, Maps
+   * and BigInts intact. Both sides must use the same codec. Defaults to plain JSON.
+   */
+  codec?: EventCodec<T, string>;
+}
+
+/**
+ * Options accepted by `serveSocket`. The server sends each client the events it subscribed to,
+ * among those selected by `send`. Both `send` and `receive` default to '*'.
+ */
+export type SocketServerOptions<T> = SocketAddress & SocketTransportOptions<T>;
+
+/**
+ * How a client reconnects after losing its connection. The n-th attempt waits
+ * `initialDelay * factor ** n` milliseconds, at most `maxDelay`.
+ */
+export interface ReconnectOptions {
+  /** Delay before the first attempt in milliseconds. Defaults to 100. */
+  initialDelay?: number;
+  /** Longest delay between attempts in milliseconds. Defaults to 5000. */
+  maxDelay?: number;
+  /** Growth of the delay per failed attempt. Defaults to 2. */
+  factor?: number;
+  /** Attempts after which the client gives up and closes. Defaults to Infinity. */
+  retries?: number;
+}
+
+/**
+ * Options accepted by `connectSocket`. `receive` is the client's subscription: the server only
+ * sends events it selects. Both `send` and `receive` default to none.
+ */
+export type SocketClientOptions<T> = SocketAddress & SocketTransportOptions<T> & {
+  /** Reconnect after the connection is lost. Defaults to true. */
+  reconnect?: boolean | ReconnectOptions;
+  /**
+   * Maximum number of events queued while disconnected, sent in order once connected again.
+   * Further events fail with a QueueOverflowError. Defaults to 1000.
+   */
+  maxQueue?: number;
+};
+
+/**
+ * A listening socket server, returned by `serveSocket`.
+ */
+export interface SocketServer {
+  /** The underlying server, e.g. to read the port it listens on. */
+  readonly server: Server;
+  /** The number of connected clients. */
+  readonly connections: number;
+  /** Stops listening and disconnects every client. Calling it again returns the same promise. */
+  close(): Promise<void>;
+}
+
+/**
+ * A socket client, returned by `connectSocket`.
+ */
+export interface SocketClient<T> {
+  /** True while connected and subscribed. */
+  readonly connected: boolean;
+  /**
+   * Resolves once the client is connected and the server has its subscription.
+   * Rejects with a ConnectionClosedError if the client closes first.
+   */
+  ready(): Promise<void>;
+  /**
+   * Adds events and patterns to the subscription.
+   * @returns A function removing them again.
+   * @throws {InvalidEventNameError} If a pattern is malformed.
+   */
+  subscribe(selectors: ReadonlyArray<keyof T | WildcardPattern>): () => void;
+  /**
+   * Disconnects for good. Queued events and events awaiting acknowledgement fail with a
+   * ConnectionClosedError. Calling it again returns the same promise.
+   */
+  close(): Promise<void>;
+}
+
+type EventName = string | number;
+
+type SocketMessage =
+  | { kind: 'subscribe'; selectors: EventName[] }
+  | { kind: 'subscribed' }
+  | { kind: 'event'; eventName: EventName; data: unknown; id?: number }
+  | { kind: 'ack'; id: number; error?: RemoteFailure };
+
+const DEFAULT_MAX_FRAME_SIZE = 16 * 1024 * 1024;
+const HEADER_SIZE = 4;
+
+function encodeFrame(message: SocketMessage): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  const frame = Buffer.allocUnsafe(HEADER_SIZE + body.length);
+  frame.writeUInt32BE(body.length, 0);
+  body.copy(frame, HEADER_SIZE);
+  return frame;
+}
+
+function isSocketMessage(value: unknown): value is SocketMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const message = value as Record<string, unknown>;
+  switch (message.kind) {
+    case 'subscribe':
+      return Array.isArray(message.selectors);
+    case 'subscribed':
+      return true;
+    case 'event':
+      return typeof message.eventName === 'string' || typeof message.eventName === 'number';
+    case 'ack':
+      return typeof message.id === 'number';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Splits a byte stream into messages. Every frame is a 4-byte big-endian length followed by
+ * that many bytes of UTF-8 JSON.
+ */
+class FrameDecoder {
+  private buffered = Buffer.alloc(0);
+
+  constructor(private readonly maxFrameSize: number) {}
+
+  /**
+   * @returns The messages completed by the chunk.
+   * @throws {FrameError} If a frame is too large or does not hold a valid message.
+   */
+  push(chunk: Buffer): SocketMessage[] {
+    this.buffered = this.buffered.length === 0 ? chunk : Buffer.concat([this.buffered, chunk]);
+    const messages: SocketMessage[] = [];
+    while (this.buffered.length >= HEADER_SIZE) {
+      const size = this.buffered.readUInt32BE(0);
+      if (size > this.maxFrameSize) {
+        throw new FrameError(`Frame of ${size} bytes exceeds the limit of ${this.maxFrameSize} bytes`);
+      }
+      if (this.buffered.length < HEADER_SIZE + size) {
+        break;
+      }
+      const body = this.buffered.subarray(HEADER_SIZE, HEADER_SIZE + size).toString('utf8');
+      this.buffered = this.buffered.subarray(HEADER_SIZE + size);
+      let message: unknown;
+      try {
+        message = JSON.parse(body);
+      } catch {
+        throw new FrameError('Frame does not contain valid JSON');
+      }
+      if (!isSocketMessage(message)) {
+        throw new FrameError('Frame does not contain a valid message');
+      }
+      messages.push(message);
+    }
+    return messages;
+  }
+}
+
+/**
+ * One connection: frames messages and tracks the events awaiting acknowledgement.
+ */
+class Link {
+  private readonly pending = new PendingAcks();
+
+  /**
+   * @param socket The connected socket.
+   * @param maxFrameSize The largest accepted frame.
+   * @param onMessage Receives every message except acknowledgements.
+   * @param onError Receives FrameErrors, after which the socket is destroyed.
+   */
+  constructor(
+    readonly socket: Socket,
+    maxFrameSize: number,
+    onMessage: (message: Exclude<SocketMessage, { kind: 'ack' }>) => void,
+    onError: (error: unknown) => void
+  ) {
+    const decoder = new FrameDecoder(maxFrameSize);
+    socket.on('data', chunk => {
+      let messages: SocketMessage[];
+      try {
+        messages = decoder.push(chunk);
+      } catch (err) {
+        onError(err);
+        socket.destroy();
+        return;
+      }
+      for (const message of messages) {
+        if (message.kind === 'ack') {
+          this.pending.acknowledge(message.id, message.error);
+        } else {
+          onMessage(message);
+        }
+      }
+    });
+  }
+
+  send(message: SocketMessage): void {
+    if (!this.socket.destroyed) {
+      this.socket.write(encodeFrame(message));
+    }
+  }
+
+  /**
+   * Sends an event asking for acknowledgement.
+   * @returns A promise settled by the acknowledgement.
+   */
+  sendWithAck(eventName: EventName, data: unknown, ackTimeout: number | undefined): Promise<void> {
+    const { id, acknowledged } = this.pending.add(eventName, ackTimeout);
+    this.send({ kind: 'event', eventName, data, id });
+    return acknowledged;
+  }
+
+  /**
+   * Fails every event still awaiting acknowledgement. Called once the socket has closed.
+   */
+  closed(cause?: unknown): void {
+    this.pending.failAll(eventName => new ConnectionClosedError(eventName, cause));
+  }
+}
+
+/**
+ * Emits an event received over a link. Acknowledged events are emitted with `emitAsync` and
+ * answered once their handlers settle; the others are emitted with `emit`. A payload the codec
+ * cannot decode is answered with its CodecError, or reported to `onError`.
+ */
+function deliverInbound(
+  target: TypeSafeEmitter<any, any>,
+  inbound: InboundDeliveries<Link>,
+  link: Link,
+  message: Extract<SocketMessage, { kind: 'event' }>,
+  codec: EventCodec<any, string> | undefined,
+  onError: (error: unknown) => void
+): void {
+  const { eventName, id } = message;
+  let data: unknown;
+  try {
+    data = codec ? codec.decode(eventName, message.data as string) : message.data;
+  } catch (err) {
+    if (id === undefined) {
+      onError(err);
+    } else {
+      link.send({ kind: 'ack', id, error: describeFailure(err) });
+    }
+    return;
+  }
+  const done = inbound.start(eventName, data, link);
+  if (id === undefined) {
+    try {
+      target.emit(eventName, data);
+    } catch (err) {
+      onError(err);
+    } finally {
+      done();
+    }
+    return;
+  }
+  new Promise<unknown>(resolve => resolve(target.emitAsync(eventName, data))).then(
+    () => link.send({ kind: 'ack', id }),
+    err => link.send({ kind: 'ack', id, error: describeFailure(err) }),
+  ).finally(done);
+}
+
+function listen(server: Server, address: SocketAddress): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(address, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+}
+
+/**
+ * Starts a server sharing an emitter's events with socket clients, e.g. a daemon that CLI
+ * processes connect to with `connectSocket`. Each client receives the events it subscribed
+ * to; events received from a client are emitted locally and reach the other clients, but are
+ * not sent back to it. Events are framed as length-prefixed JSON, so payloads must be
+ * JSON-serializable. Symbol event names are never sent.
+ * @param emitter The local emitter.
+ * @param options The address to listen on, and which events to send and receive.
+ * @returns The listening server.
+ * @throws {InvalidEventNameError} If a pattern is malformed.
+ */
+export async function serveSocket<T extends EventMap>(
+  emitter: TypeSafeEmitter<T, any>,
+  options: SocketServerOptions<T>
+): Promise<SocketServer> {
+  // Clients choose the events they exchange at runtime, so they are forwarded untyped.
+  const target = emitter as TypeSafeEmitter<any, any>;
+  const sends = createEventFilter(options.send ?? ['*']);
+  const receives = createEventFilter(options.receive ?? ['*']);
+  const codec = options.codec as EventCodec<any, string> | undefined;
+  const onError = options.onError ?? (error => console.error(error));
+  const maxFrameSize = options.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE;
+  const links = new Set<Link>();
+  const subscriptions = new Map<Link, (eventName: PropertyKey) => boolean>();
+  const inbound = new InboundDeliveries<Link>();
+
+  const server = createServer(socket => {
+    const link: Link = new Link(socket, maxFrameSize, message => {
+      if (message.kind === 'subscribe') {
+        try {
+          subscriptions.set(link, createEventFilter(message.selectors));
+          link.send({ kind: 'subscribed' });
+        } catch (err) {
+          onError(err);
+        }
+      } else if (message.kind === 'event' && receives(message.eventName)) {
+        deliverInbound(target, inbound, link, message, codec, onError);
+      }
+    }, onError);
+    links.add(link);
+    // Socket errors, such as a client resetting the connection, are followed by 'close'.
+    socket.on('error', () => {});
+    socket.on('close', () => {
+      links.delete(link);
+      subscriptions.delete(link);
+      link.closed();
+    });
+  });
+
+  const forward = (eventName: PropertyKey, data: unknown): void | Promise<void> => {
+    if (typeof eventName === 'symbol' || !sends(eventName)) {
+      return;
+    }
+    const acknowledgements: Promise<void>[] = [];
+    let encoded: { payload: unknown } | undefined;
+    subscriptions.forEach((subscribed, link) => {
+      if (!subscribed(eventName) || inbound.has(eventName, data, link)) {
+        return;
+      }
+      encoded ??= { payload: codec ? codec.encode(eventName, data) : data };
+      if (options.ack) {
+        acknowledgements.push(link.sendWithAck(eventName, encoded.payload, options.ackTimeout));
+      } else {
+        link.send({ kind: 'event', eventName, data: encoded.payload });
+      }
+    });
+    if (acknowledgements.length > 0) {
+      return handled(Promise.all(acknowledgements).then(() => {}));
+    }
+  };
+
+  await listen(server, options);
+  const unsubscribe = target.on('*', forward);
+  let closing: Promise<void> | undefined;
+
+  return {
+    server,
+    get connections() {
+      return links.size;
+    },
+    close() {
+      if (!closing) {
+        unsubscribe();
+        closing = new Promise<void>((resolve, reject) => {
+          server.close(err => (err ? reject(err) : resolve()));
+          links.forEach(link => link.socket.destroy());
+        });
+      }
+      return closing;
+    },
+  };
+}
+
+/**
+ * Connects an emitter to a socket server started with `serveSocket`. The client subscribes to
+ * the `receive` events, sends the `send` events, reconnects with exponential backoff when the
+ * connection is lost, and queues events emitted while disconnected. Events received from the
+ * server are not sent back to it.
+ * @param emitter The local emitter.
+ * @param options The address to connect to, which events to send and receive, and how to reconnect.
+ * @returns The client, which starts connecting immediately.
+ * @throws {InvalidEventNameError} If a pattern is malformed.
+ * @throws {RangeError} If `maxQueue` is not a non-negative integer.
+ */
+export function connectSocket<T extends EventMap>(
+  emitter: TypeSafeEmitter<T, any>,
+  options: SocketClientOptions<T>
+): SocketClient<T> {
+  // Untyped for the same reason as in `serveSocket`.
+  const target = emitter as TypeSafeEmitter<any, any>;
+  const sends = createEventFilter(options.send ?? []);
+  const codec = options.codec as EventCodec<any, string> | undefined;
+  const onError = options.onError ?? (error => console.error(error));
+  const maxFrameSize = options.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE;
+  const maxQueue = options.maxQueue ?? 1000;
+  if (!(Number.isInteger(maxQueue) && maxQueue >= 0)) {
+    throw new RangeError(`maxQueue must be a non-negative integer, got ${maxQueue}`);
+  }
+  const reconnect = options.reconnect ?? true;
+  const { initialDelay = 100, maxDelay = 5000, factor = 2, retries = Infinity } = typeof reconnect === 'object' ? reconnect : {};
+
+  const selectors: Array<keyof T | WildcardPattern>[] = [[...(options.receive ?? [])]];
+  let receives = createEventFilter(selectors.flat());
+  const queue: Array<{ eventName: EventName; data: unknown; deferred?: { resolve(): void; reject(error: unknown): void } }> = [];
+  const inbound = new InboundDeliveries<Link>();
+  const waiting: Array<{ resolve(): void; reject(error: unknown): void }> = [];
+  let link: Link | undefined;
+  let subscribed = false;
+  let closed = false;
+  let attempt = 0;
+  let lastError: unknown;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closing: Promise<void> | undefined;
+
+  const subscription = (): SocketMessage => ({
+    kind: 'subscribe',
+    selectors: selectors.flat().filter((selector): selector is EventName => typeof selector !== 'symbol'),
+  });
+
+  const connect = () => {
+    timer = undefined;
+    const socket = createConnection(options);
+    const current: Link = new Link(socket, maxFrameSize, message => {
+      if (message.kind === 'subscribed') {
+        if (!subscribed) {
+          subscribed = true;
+          attempt = 0;
+          lastError = undefined;
+          flush(current);
+        }
+      } else if (message.kind === 'event' && receives(message.eventName)) {
+        deliverInbound(target, inbound, current, message, codec, onError);
+      }
+    }, onError);
+    link = current;
+    socket.on('connect', () => current.send(subscription()));
+    socket.on('error', err => {
+      lastError = err;
+    });
+    socket.on('close', () => {
+      current.closed(lastError);
+      link = undefined;
+      subscribed = false;
+      if (closed) {
+        return;
+      }
+      if (reconnect === false || attempt >= retries) {
+        shutdown();
+        return;
+      }
+      timer = setTimeout(connect, Math.min(initialDelay * factor ** attempt++, maxDelay));
+    });
+  };
+
+  const flush = (current: Link) => {
+    queue.splice(0).forEach(({ eventName, data, deferred }) => {
+      if (deferred) {
+        current.sendWithAck(eventName, data, options.ackTimeout).then(deferred.resolve, deferred.reject);
+      } else {
+        current.send({ kind: 'event', eventName, data });
+      }
+    });
+    waiting.splice(0).forEach(waiter => waiter.resolve());
+  };
+
+  // Fails everything still waiting for a connection and stops forwarding.
+  const shutdown = () => {
+    closed = true;
+    unsubscribe();
+    clearTimeout(timer);
+    queue.splice(0).forEach(({ eventName, deferred }) => deferred?.reject(new ConnectionClosedError(eventName, lastError)));
+    waiting.splice(0).forEach(waiter => waiter.reject(new ConnectionClosedError(undefined, lastError)));
+  };
+
+  const forward = (eventName: PropertyKey, data: unknown): void | Promise<void> => {
+    if (typeof eventName === 'symbol' || !sends(eventName) || (link && inbound.has(eventName, data, link))) {
+      return;
+    }
+    if (codec) {
+      data = codec.encode(eventName, data);
+    }
+    if (subscribed) {
+      if (options.ack) {
+        return handled(link!.sendWithAck(eventName, data, options.ackTimeout));
+      }
+      link!.send({ kind: 'event', eventName, data });
+      return;
+    }
+    if (queue.length >= maxQueue) {
+      const error = new QueueOverflowError(eventName, maxQueue);
+      if (options.ack) {
+        return handled(Promise.reject(error));
+      }
+      onError(error);
+      return;
+    }
+    if (!options.ack) {
+      queue.push({ eventName, data });
+      return;
+    }
+    return handled(new Promise<void>((resolve, reject) => {
+      queue.push({ eventName, data, deferred: { resolve, reject } });
+    }));
+  };
+
+  const unsubscribe = target.on('*', forward);
+  connect();
+
+  return {
+    get connected() {
+      return subscribed;
+    },
+    ready() {
+      if (subscribed) {
+        return Promise.resolve();
+      }
+      if (closed) {
+        return Promise.reject(new ConnectionClosedError(undefined, lastError));
+      }
+      return new Promise<void>((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    subscribe(added) {
+      const entry = [...added];
+      receives = createEventFilter([...selectors.flat(), ...entry]);
+      selectors.push(entry);
+      if (subscribed) {
+        link!.send(subscription());
+      }
+      return () => {
+        const index = selectors.indexOf(entry);
+        if (index === -1) {
+          return;
+        }
+        selectors.splice(index, 1);
+        receives = createEventFilter(selectors.flat());
+        if (subscribed) {
+          link!.send(subscription());
+        }
+      };
+    },
+    close() {
+      if (!closing) {
+        const socket = link?.socket;
+        closing = new Promise<void>(resolve => {
+          if (!socket || socket.destroyed) {
+            resolve();
+          } else {
+            socket.once('close', () => resolve());
+            socket.end();
+          }
+        });
+        shutdown();
+      }
+      return closing;
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { SINGLE_WILDCARD, configKey, isPattern, matchesPattern } from './matcher';
+import type { ScopeToken } from './listeners';
+
+/**
+ * Which events are sticky and how many of their latest payloads are kept.
+ * `true` keeps only the latest payload.
+ */
+export type StickyConfig<T> = Partial<Record<keyof T, number | true>>;
+
+/**
+ * The `replay` listener option: `true` replays every cached payload, a number replays at
+ * most that many of the latest payloads of each event.
+ */
+export type ReplayOption = boolean | number;
+
+/**
+ * A cached payload of a sticky event.
+ */
+export interface StickyEntry {
+  readonly eventName: PropertyKey;
+  readonly data: unknown;
+  /** Increases with every recorded emission, across all sticky events. */
+  readonly sequence: number;
+  /** The scope the event was emitted through, if any. */
+  readonly origin?: ScopeToken;
+}
+
+/**
+ * Keeps the latest payloads of sticky events so they can be replayed to late subscribers.
+ */
+export class StickyCache {
+  private limits: Map<PropertyKey, number> = new Map();
+  private entries: Map<PropertyKey, StickyEntry[]> = new Map();
+  private nextSequence = 0;
+
+  /**
+   * @param config The number of payloads to keep per sticky event.
+   * @throws {RangeError} If a count is not a positive integer.
+   */
+  constructor(config: Record<PropertyKey, number | true | undefined>) {
+    for (const eventName of Reflect.ownKeys(config)) {
+      const limit = config[eventName];
+      if (limit === undefined) {
+        continue;
+      }
+      if (limit !== true && !(Number.isInteger(limit) && limit >= 1)) {
+        throw new RangeError(`Sticky count for event "${String(eventName)}" must be a positive integer, got ${limit}`);
+      }
+      this.limits.set(eventName, limit === true ? 1 : limit);
+    }
+  }
+
+  /**
+   * The number of sticky events.
+   */
+  get size(): number {
+    return this.limits.size;
+  }
+
+  /**
+   * Caches a payload if the event is sticky, dropping the oldest one beyond the event's limit.
+   * @param eventName The event being emitted.
+   * @param data The payload its listeners receive.
+   * @param origin The scope the event is emitted through, if any.
+   */
+  record(eventName: PropertyKey, data: unknown, origin?: ScopeToken): void {
+    const limit = this.limits.get(configKey(eventName));
+    if (limit === undefined) {
+      return;
+    }
+    let cached = this.entries.get(eventName);
+    if (!cached) {
+      cached = [];
+      this.entries.set(eventName, cached);
+    }
+    cached.push({ eventName, data, sequence: this.nextSequence++, origin });
+    if (cached.length > limit) {
+      cached.shift();
+    }
+  }
+
+  /**
+   * Returns the cached entries of an event, oldest first.
+   * @param eventName The event.
+   */
+  get(eventName: PropertyKey): readonly StickyEntry[] {
+    return this.entries.get(eventName) ?? [];
+  }
+
+  /**
+   * Returns the entries a new subscription replays, in emission order.
+   * @param eventName The event name, '*' or pattern subscribed to.
+   * @param replay The `replay` option of the subscription.
+   */
+  replayFor(eventName: PropertyKey, replay: ReplayOption): StickyEntry[] {
+    const count = replay === true ? Infinity : replay === false ? 0 : replay;
+    if (!(count >= 1)) {
+      return [];
+    }
+    if (eventName !== SINGLE_WILDCARD && !isPattern(eventName)) {
+      return this.get(eventName).slice(-count);
+    }
+    const matching: StickyEntry[] = [];
+    this.entries.forEach((cached, name) => {
+      if (eventName === SINGLE_WILDCARD || (typeof name === 'string' && matchesPattern(eventName, name))) {
+        matching.push(...cached.slice(-count));
+      }
+    });
+    return matching.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * Forgets the cached payloads of one event, or of every event.
+   * @param eventName The event to clear. If omitted, the whole cache is cleared.
+   */
+  clear(eventName?: PropertyKey): void {
+    if (eventName === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(eventName);
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import { AnyHandler } from './listeners';
+
+/**
+ * The timer functions used by the timing operators. Replace them to drive the operators
+ * from a fake clock in tests.
+ */
+export interface Clock {
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(timer: unknown): void;
+}
+
+/**
+ * The global timers.
+ */
+export const systemClock: Clock = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: timer => clearTimeout(timer as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Options of the `throttle` operator.
+ */
+export interface ThrottleOptions {
+  /** Length of the throttle window in milliseconds. */
+  ms: number;
+  /** Deliver the first payload of a window immediately. Defaults to true. */
+  leading?: boolean;
+  /** Deliver the latest payload received during a window when it ends. Defaults to true. */
+  trailing?: boolean;
+}
+
+/**
+ * Timing operators for `on`, which deliver payloads later or less often.
+ * At most one of `debounce`, `throttle` and `sample` may be given.
+ * For '*' and patterns, every concrete event name is timed separately.
+ */
+export interface TimingOptions {
+  /** Deliver the latest payload once no new one has arrived for this many milliseconds. */
+  debounce?: number;
+  /** Deliver at most one payload per window. */
+  throttle?: ThrottleOptions;
+  /** Deliver the latest payload at the end of each period of this many milliseconds in which one arrived. */
+  sample?: number;
+  /**
+   * If true, payloads still waiting when the listener is removed are delivered at that moment
+   * instead of being dropped. Defaults to false.
+   */
+  flush?: boolean;
+}
+
+/**
+ * Buffering options for `on`, which make the handler receive arrays of payloads, delivered when
+ * `bufferCount` payloads have arrived or `bufferTime` milliseconds after the first one, whichever
+ * comes first. For '*' and patterns, every concrete event name is buffered separately.
+ */
+export type BufferOptions = {
+  /** If true, payloads still buffered when the listener is removed are delivered at that moment. Defaults to false. */
+  flush?: boolean;
+} & (
+  | { bufferTime: number; bufferCount?: number }
+  | { bufferTime?: number; bufferCount: number }
+);
+
+/**
+ * Every timing option, as the operators read them.
+ */
+type OperatorOptions = TimingOptions & { bufferTime?: number; bufferCount?: number };
+
+/**
+ * The timing state of one concrete event name.
+ */
+interface Operator {
+  /** Receives a payload. Returns the handler's result if the payload was delivered right away. */
+  push(value: unknown): void | Promise<void>;
+  /** Delivers whatever is waiting and stops the timer. */
+  flush(): void;
+  /** Drops whatever is waiting and stops the timer. */
+  cancel(): void;
+}
+
+/**
+ * A handler wrapped in a timing operator.
+ */
+export interface TimedHandler {
+  /** The function to register as the listener. */
+  readonly handler: AnyHandler;
+  /** Stops every timer, delivering waiting payloads first if `flush` was requested. */
+  readonly stop: () => void;
+}
+
+/**
+ * Returns true if the options request a timing operator.
+ */
+export function hasTimingOperator(options: OperatorOptions | undefined): boolean {
+  return options !== undefined && (
+    options.debounce !== undefined
+    || options.throttle !== undefined
+    || options.sample !== undefined
+    || options.bufferTime !== undefined
+    || options.bufferCount !== undefined
+  );
+}
+
+function stopTimer(clock: Clock, timer: unknown): void {
+  if (timer !== undefined) {
+    clock.clearTimeout(timer);
+  }
+}
+
+function checkDuration(name: string, ms: number): void {
+  if (!(Number.isFinite(ms) && ms >= 0)) {
+    throw new RangeError(`${name} must be a non-negative number of milliseconds, got ${ms}`);
+  }
+}
+
+/**
+ * Wraps a handler in the timing operator selected by the options.
+ * @param options The timing options.
+ * @param wildcard True if the handler receives `(eventName, data)`, in which case every event name is timed separately.
+ * @param handler The user's handler.
+ * @param clock The timers to use.
+ * @param onError Receives errors of deliveries made from a timer or a flush, which have no emit to report them to.
+ * @throws {TypeError} If more than one operator is selected, or a throttle would never deliver anything.
+ * @throws {RangeError} If a duration or count is invalid.
+ */
+export function createTimedHandler(
+  options: OperatorOptions,
+  wildcard: boolean,
+  handler: AnyHandler,
+  clock: Clock,
+  onError: (error: unknown, eventName: PropertyKey | undefined, value: unknown) => void
+): TimedHandler {
+  const createOperator = selectOperator(options, clock);
+  const groups = new Map<PropertyKey | undefined, Operator>();
+
+  const group = (eventName: PropertyKey | undefined): Operator => {
+    let operator = groups.get(eventName);
+    if (!operator) {
+      operator = createOperator((value, duringEmit) => {
+        if (duringEmit) {
+          return wildcard ? handler(eventName, value) : handler(value);
+        }
+        try {
+          const result = wildcard ? handler(eventName, value) : handler(value);
+          if (result instanceof Promise) {
+            result.catch(err => onError(err, eventName, value));
+          }
+        } catch (err) {
+          onError(err, eventName, value);
+        }
+      });
+      groups.set(eventName, operator);
+    }
+    return operator;
+  };
+
+  return {
+    handler: wildcard
+      ? (eventName: PropertyKey, data: unknown) => group(eventName).push(data)
+      : (data: unknown) => group(undefined).push(data),
+    stop: () => {
+      groups.forEach(operator => (options.flush ? operator.flush() : operator.cancel()));
+      groups.clear();
+    },
+  };
+}
+
+/**
+ * Delivers a value to the handler. `duringEmit` is true for deliveries made synchronously
+ * while an event is being emitted, whose errors the emit reports. Errors of other deliveries,
+ * from a timer or a flush, go to `onError`.
+ */
+type Deliver = (value: unknown, duringEmit: boolean) => void | Promise<void>;
+
+function selectOperator(options: OperatorOptions, clock: Clock): (deliver: Deliver) => Operator {
+  const selected = [
+    options.debounce !== undefined,
+    options.throttle !== undefined,
+    options.sample !== undefined,
+    options.bufferTime !== undefined || options.bufferCount !== undefined,
+  ].filter(Boolean).length;
+  if (selected > 1) {
+    throw new TypeError('Only one of debounce, throttle, sample and bufferTime/bufferCount can be used per listener');
+  }
+
+  if (options.debounce !== undefined) {
+    const ms = options.debounce;
+    checkDuration('debounce', ms);
+    return deliver => debounce(ms, clock, deliver);
+  }
+  if (options.throttle !== undefined) {
+    const { ms, leading = true, trailing = true } = options.throttle;
+    checkDuration('throttle.ms', ms);
+    if (!leading && !trailing) {
+      throw new TypeError('throttle needs leading or trailing to be true');
+    }
+    return deliver => throttle(ms, leading, trailing, clock, deliver);
+  }
+  if (options.sample !== undefined) {
+    const ms = options.sample;
+    checkDuration('sample', ms);
+    return deliver => throttle(ms, false, true, clock, deliver, false);
+  }
+  const { bufferTime, bufferCount } = options;
+  if (bufferTime !== undefined) {
+    checkDuration('bufferTime', bufferTime);
+  }
+  if (bufferCount !== undefined && !(Number.isInteger(bufferCount) && bufferCount >= 1)) {
+    throw new RangeError(`bufferCount must be a positive integer, got ${bufferCount}`);
+  }
+  return deliver => buffer(bufferTime, bufferCount, clock, deliver);
+}
+
+function debounce(ms: number, clock: Clock, deliver: Deliver): Operator {
+  let timer: unknown;
+  let pending: { value: unknown } | undefined;
+  const fire = () => {
+    const { value } = pending!;
+    pending = undefined;
+    timer = undefined;
+    deliver(value, false);
+  };
+  return {
+    push(value) {
+      pending = { value };
+      stopTimer(clock, timer);
+      timer = clock.setTimeout(fire, ms);
+    },
+    flush() {
+      if (pending) {
+        stopTimer(clock, timer);
+        fire();
+      }
+    },
+    cancel() {
+      stopTimer(clock, timer);
+      timer = undefined;
+      pending = undefined;
+    },
+  };
+}
+
+/**
+ * Throttles deliveries to one per window. With `restart`, a trailing delivery opens a new
+ * window, so deliveries stay `ms` apart; without it (sampling), the next payload does.
+ */
+function throttle(ms: number, leading: boolean, trailing: boolean, clock: Clock, deliver: Deliver, restart = true): Operator {
+  let timer: unknown;
+  let pending: { value: unknown } | undefined;
+  const open = () => {
+    timer = clock.setTimeout(close, ms);
+  };
+  const close = () => {
+    timer = undefined;
+    if (pending) {
+      const { value } = pending;
+      pending = undefined;
+      if (restart) {
+        open();
+      }
+      deliver(value, false);
+    }
+  };
+  return {
+    push(value) {
+      if (timer !== undefined) {
+        if (trailing) {
+          pending = { value };
+        }
+        return;
+      }
+      open();
+      if (leading) {
+        return deliver(value, true);
+      } else {
+        pending = { value };
+      }
+    },
+    flush() {
+      stopTimer(clock, timer);
+      timer = undefined;
+      if (pending) {
+        const { value } = pending;
+        pending = undefined;
+        deliver(value, false);
+      }
+    },
+    cancel() {
+      stopTimer(clock, timer);
+      timer = undefined;
+      pending = undefined;
+    },
+  };
+}
+
+function buffer(ms: number | undefined, count: number | undefined, clock: Clock, deliver: Deliver): Operator {
+  let timer: unknown;
+  let items: unknown[] = [];
+  const fire = (duringEmit: boolean) => {
+    const batch = items;
+    items = [];
+    stopTimer(clock, timer);
+    timer = undefined;
+    return deliver(batch, duringEmit);
+  };
+  return {
+    push(value) {
+      items.push(value);
+      if (count !== undefined && items.length >= count) {
+        return fire(true);
+      } else if (ms !== undefined && timer === undefined) {
+        timer = clock.setTimeout(() => fire(false), ms);
+      }
+    },
+    flush() {
+      if (items.length > 0) {
+        fire(false);
+      }
+    },
+    cancel() {
+      stopTimer(clock, timer);
+      timer = undefined;
+      items = [];
+    },
+  };
+}
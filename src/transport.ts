@@ -0,0 +1,119 @@
+import { EmitTimeoutError, HandlerError, RemoteHandlerError } from './errors';
+
+/**
+ * What an acknowledgement reports about the error a remote handler threw.
+ */
+export interface RemoteFailure {
+  name: string;
+  message: string;
+}
+
+interface PendingAck {
+  eventName: PropertyKey;
+  resolve(): void;
+  reject(error: unknown): void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * The events a transport has sent and awaits acknowledgements for.
+ */
+export class PendingAcks {
+  private readonly pending = new Map<number, PendingAck>();
+  private nextId = 0;
+
+  /**
+   * Registers an event about to be sent with a request for acknowledgement.
+   * @param eventName The event being sent.
+   * @param timeout Milliseconds to wait before failing with an EmitTimeoutError. Undefined waits forever.
+   * @returns The id to send with the event, and a promise settled by its acknowledgement.
+   */
+  add(eventName: PropertyKey, timeout: number | undefined): { id: number; acknowledged: Promise<void> } {
+    const id = this.nextId++;
+    const acknowledged = new Promise<void>((resolve, reject) => {
+      const entry: PendingAck = { eventName, resolve, reject };
+      if (timeout !== undefined) {
+        entry.timer = setTimeout(() => this.settle(id, new EmitTimeoutError(eventName, timeout, 'handler')), timeout);
+      }
+      this.pending.set(id, entry);
+    });
+    return { id, acknowledged };
+  }
+
+  /**
+   * Settles an event with the acknowledgement received for it: resolved, or rejected with a
+   * RemoteHandlerError if the remote handlers failed. Unknown ids are ignored.
+   */
+  acknowledge(id: number, failure?: RemoteFailure): void {
+    const entry = this.pending.get(id);
+    if (entry) {
+      this.settle(id, failure && new RemoteHandlerError(entry.eventName, failure.name, failure.message));
+    }
+  }
+
+  /**
+   * Fails every event still awaiting acknowledgement, e.g. when the connection closes.
+   * @param createError Creates the error for an event.
+   */
+  failAll(createError: (eventName: PropertyKey) => unknown): void {
+    this.pending.forEach((entry, id) => this.settle(id, createError(entry.eventName)));
+  }
+
+  private settle(id: number, error?: unknown): void {
+    const entry = this.pending.get(id)!;
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    if (error === undefined) {
+      entry.resolve();
+    } else {
+      entry.reject(error);
+    }
+  }
+}
+
+/**
+ * The events being delivered locally after arriving from the other side of a transport, which
+ * must not be sent back where they came from. Received payloads are fresh copies, so an object
+ * payload identifies its delivery; primitives can only be told apart by name and value.
+ */
+export class InboundDeliveries<Source = undefined> {
+  private readonly deliveries: Array<{ eventName: PropertyKey; data: unknown; source?: Source }> = [];
+
+  /**
+   * Records a delivery in progress.
+   * @param source Where the event came from, for transports with several connections.
+   * @returns A function that ends the delivery.
+   */
+  start(eventName: PropertyKey, data: unknown, source?: Source): () => void {
+    const delivery = { eventName, data, source };
+    this.deliveries.push(delivery);
+    return () => {
+      this.deliveries.splice(this.deliveries.indexOf(delivery), 1);
+    };
+  }
+
+  /**
+   * Returns true if the event is being delivered after arriving from `source`.
+   */
+  has(eventName: PropertyKey, data: unknown, source?: Source): boolean {
+    return this.deliveries.some(delivery => delivery.source === source && delivery.eventName === eventName && Object.is(delivery.data, data));
+  }
+}
+
+/**
+ * Describes a failure of local handlers for the acknowledgement sent back to the other side.
+ */
+export function describeFailure(err: unknown): RemoteFailure {
+  // Report what the handler threw, not the HandlerError emitAsync wraps it in.
+  const cause = err instanceof HandlerError ? err.cause : err;
+  return cause instanceof Error ? { name: cause.name, message: cause.message } : { name: 'Error', message: String(cause) };
+}
+
+/**
+ * Returns the promise to hand back to the emitter for an acknowledged send. `emit` ignores it,
+ * so a failure must not become an unhandled rejection; `emitAsync` still sees it.
+ */
+export function handled(promise: Promise<void>): Promise<void> {
+  promise.catch(() => {});
+  return promise;
+}
@@ -0,0 +1,100 @@
+/**
+ * Type-level counterpart of the runtime matcher in `matcher.ts`.
+ * Lets pattern subscriptions infer the event names and payloads they receive.
+ */
+
+/**
+ * Splits a dotted event name into a tuple of its segments.
+ * @example Segments<'user.profile.updated'> // ['user', 'profile', 'updated']
+ */
+export type Segments<S extends string> = S extends `${infer Head}.${infer Rest}`
+  ? [Head, ...Segments<Rest>]
+  : [S];
+
+/**
+ * Resolves to true if the segments of an event name match the segments of a pattern.
+ * `*` matches exactly one segment and `**` matches any number of segments.
+ */
+type MatchSegments<Name extends string[], Pattern extends string[]> =
+  Pattern extends [infer P, ...infer PatternRest extends string[]]
+    ? P extends '**'
+      ? MatchSegments<Name, PatternRest> extends true
+        ? true
+        : Name extends [string, ...infer NameRest extends string[]]
+          ? MatchSegments<NameRest, Pattern>
+          : false
+      : Name extends [infer N, ...infer NameRest extends string[]]
+        ? P extends '*'
+          ? MatchSegments<NameRest, PatternRest>
+          : N extends P
+            ? MatchSegments<NameRest, PatternRest>
+            : false
+        : false
+    : Name extends []
+      ? true
+      : false;
+
+/**
+ * Resolves to true if the event name matches the wildcard pattern.
+ * Wide `string` names (index signatures) are assumed to match.
+ */
+export type MatchesPattern<Name extends string, Pattern extends string> = string extends Name
+  ? true
+  : Pattern extends '*'
+    ? true
+    : MatchSegments<Segments<Name>, Segments<Pattern>>;
+
+/**
+ * Any string containing a wildcard. Used to tell pattern subscriptions apart from exact ones.
+ */
+export type WildcardPattern = `${string}*${string}`;
+
+/**
+ * The string keys of an event map.
+ */
+export type StringKeyOf<T> = Extract<keyof T, string>;
+
+/**
+ * The union of event names in `T` matched by a wildcard pattern. '*' matches every event,
+ * including number and symbol keys; other patterns only match string keys.
+ * @example MatchingEventNames<{ 'user.created': A; 'user.deleted': B; 'post.created': C }, 'user.*'> // 'user.created' | 'user.deleted'
+ */
+export type MatchingEventNames<T, Pattern extends string> = Pattern extends '*'
+  ? keyof T
+  : {
+      [K in StringKeyOf<T>]: MatchesPattern<K, Pattern> extends true ? K : never;
+    }[StringKeyOf<T>];
+
+/**
+ * The arguments a pattern handler receives for the given event names, as a union of
+ * `[eventName, data]` tuples so that checking `eventName` narrows `data`.
+ * `emitAsync` calls given an AbortSignal pass it as a third argument; it is left out of
+ * this type because an optional element would stop TypeScript from narrowing the union.
+ */
+export type PatternHandlerArgs<T, K extends keyof T> = K extends keyof T
+  ? [eventName: K, data: T[K]]
+  : never;
+
+/**
+ * Like PatternHandlerArgs, for buffered subscriptions that receive arrays of payloads.
+ */
+export type PatternBatchArgs<T, K extends keyof T> = K extends keyof T
+  ? [eventName: K, data: T[K][]]
+  : never;
+
+/**
+ * Type definition for handlers subscribed to a wildcard pattern.
+ * Receives the concrete event name and its payload as a discriminated union.
+ * Can be synchronous or asynchronous (return a Promise).
+ */
+export type PatternEventHandler<T, Pattern extends string> = (
+  ...args: PatternHandlerArgs<T, MatchingEventNames<T, Pattern>>
+) => void | Promise<void>;
+
+/**
+ * The slice of an event map under a prefix, with the prefix removed from the names.
+ * @example ScopedEvents<{ 'user.created': A; 'user.deleted': B; 'post.created': C }, 'user'> // { created: A; deleted: B }
+ */
+export type ScopedEvents<T, Prefix extends string> = {
+  [K in keyof T as K extends `${Prefix}.${infer Rest}` ? Rest : never]: T[K];
+};
@@ -0,0 +1,70 @@
+import { InvalidPayloadError } from './errors';
+
+/**
+ * A type guard accepting valid payloads.
+ */
+export type PayloadGuard<D> = (data: unknown) => data is D;
+
+/**
+ * An object that returns the parsed payload or throws, like the schemas of Zod and similar
+ * libraries. If the thrown error has an `issues` array, it is copied to the InvalidPayloadError.
+ */
+export interface PayloadParser<D> {
+  parse(data: unknown): D;
+}
+
+/**
+ * Validates the payload of one event.
+ */
+export type PayloadValidator<D> = PayloadGuard<D> | PayloadParser<D>;
+
+/**
+ * Validators keyed by event name. Events without a validator are not checked.
+ */
+export type PayloadValidators<T> = {
+  [K in keyof T]?: PayloadValidator<T[K]>;
+};
+
+/**
+ * When configured validators run.
+ * - 'always': on every `emit` and `emitAsync`.
+ * - 'development': only when `process.env.NODE_ENV` is not 'production'.
+ * - 'never': validators are ignored.
+ */
+export type ValidationMode = 'always' | 'development' | 'never';
+
+/**
+ * Returns true if validators should run in the given mode. Read once, when the emitter is created.
+ */
+export function isValidationEnabled(mode: ValidationMode): boolean {
+  if (mode !== 'development') {
+    return mode === 'always';
+  }
+  // Looked up through globalThis so that the check also works where `process` does not exist.
+  const env = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env;
+  return env?.NODE_ENV !== 'production';
+}
+
+/**
+ * Checks a payload against its validator.
+ * @param eventName The event being emitted.
+ * @param validator The event's validator.
+ * @param data The payload to check.
+ * @returns The payload to deliver: the parser's result for a PayloadParser, the payload itself for a guard.
+ * @throws {InvalidPayloadError} If the payload is invalid.
+ */
+export function validatePayload<D>(eventName: PropertyKey, validator: PayloadValidator<D>, data: unknown): D {
+  if (typeof validator === 'function') {
+    if (!validator(data)) {
+      throw new InvalidPayloadError(eventName, ['Payload does not satisfy the type guard']);
+    }
+    return data;
+  }
+  try {
+    return validator.parse(data);
+  } catch (err) {
+    const issues = (err as { issues?: unknown } | null)?.issues;
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new InvalidPayloadError(eventName, Array.isArray(issues) ? issues : [reason], err);
+  }
+}